@@ -7,6 +7,9 @@ import dts from "rollup-plugin-dts";
 const pkgPath = path.resolve("package.json");
 const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf8"));
 const external = Object.keys(pkg.dependencies ?? {});
+// The React entry imports the core package instead of bundling a second copy.
+const reactExternal = [...external, "react", pkg.name];
+const testingExternal = [...external, pkg.name];
 
 export default [
   {
@@ -42,5 +45,91 @@ export default [
       format: "esm"
     },
     plugins: [dts()]
+  },
+  {
+    input: "src/react/index.ts",
+    external: reactExternal,
+    output: [
+      {
+        file: "dist/react.js",
+        format: "esm",
+        sourcemap: true
+      },
+      {
+        file: "dist/react.cjs",
+        format: "cjs",
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      resolve({ extensions: [".js", ".ts"] }),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        declaration: false,
+        declarationMap: false,
+        sourceMap: true
+      })
+    ]
+  },
+  {
+    input: "src/react/index.ts",
+    external: reactExternal,
+    output: {
+      file: "dist/react.d.ts",
+      format: "esm"
+    },
+    plugins: [dts()]
+  },
+  {
+    input: "src/testing/index.ts",
+    external: testingExternal,
+    output: [
+      {
+        file: "dist/testing.js",
+        format: "esm",
+        sourcemap: true
+      },
+      {
+        file: "dist/testing.cjs",
+        format: "cjs",
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      resolve({ extensions: [".js", ".ts"] }),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        declaration: false,
+        declarationMap: false,
+        sourceMap: true
+      })
+    ]
+  },
+  {
+    input: "src/testing/index.ts",
+    external: testingExternal,
+    output: {
+      file: "dist/testing.d.ts",
+      format: "esm"
+    },
+    plugins: [dts()]
+  },
+  {
+    input: "src/cli/index.ts",
+    external: [/^node:/],
+    output: {
+      file: "dist/cli.js",
+      format: "esm",
+      banner: "#!/usr/bin/env node"
+    },
+    plugins: [
+      resolve({ extensions: [".js", ".ts"] }),
+      typescript({
+        tsconfig: "./tsconfig.cli.json",
+        declaration: false,
+        declarationMap: false,
+        sourceMap: false
+      })
+    ]
   }
 ];
@@ -0,0 +1,78 @@
+import { SyncHiveAbortError, SyncHiveTimeoutError } from "./errors";
+
+export type RequestSignal = {
+  signal?: AbortSignal;
+  dispose: () => void;
+};
+
+/**
+ * Combines a caller's signal with an optional timeout into one signal whose
+ * abort reason is always a `SyncHiveAbortError`.
+ */
+export const createRequestSignal = (
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): RequestSignal => {
+  if (!parent && !timeoutMs) {
+    return { signal: undefined, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const abortFromParent = (): void => {
+    if (parent) controller.abort(toAbortError(parent));
+  };
+
+  if (parent?.aborted) {
+    abortFromParent();
+  } else {
+    parent?.addEventListener("abort", abortFromParent, { once: true });
+  }
+
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        controller.abort(new SyncHiveTimeoutError(timeoutMs));
+      }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", abortFromParent);
+    },
+  };
+};
+
+export const toAbortError = (signal: AbortSignal): SyncHiveAbortError => {
+  const reason: unknown = signal.reason;
+  if (reason instanceof SyncHiveAbortError) return reason;
+  return new SyncHiveAbortError(undefined, reason);
+};
+
+export const throwIfAborted = (signal: AbortSignal | undefined): void => {
+  if (signal?.aborted) throw toAbortError(signal);
+};
+
+/** Stops waiting on `promise` once `signal` aborts; the work itself continues. */
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(toAbortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(toAbortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+};
@@ -0,0 +1,145 @@
+import { throwIfAborted, toAbortError } from "./abort";
+import { SyncHiveError } from "./errors";
+import type { Attachment, TransferProgress } from "./types";
+
+/** Files larger than this are sent in chunks unless `chunked` says otherwise. */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export type UploadSession = {
+  uploadId: string;
+  received?: number;
+};
+
+type ChunkSender = (
+  chunk: Blob,
+  contentRange: string,
+) => Promise<Partial<Attachment> & { received?: number }>;
+
+const getFileName = (file: Blob, fileName: string | undefined): string => {
+  if (fileName) return fileName;
+  const name = (file as Partial<File>).name;
+  return typeof name === "string" && name ? name : "file";
+};
+
+export const describeFile = (
+  file: Blob,
+  options: { fileName?: string; contentType?: string },
+): { fileName: string; contentType: string; size: number } => ({
+  fileName: getFileName(file, options.fileName),
+  contentType: options.contentType || file.type || "application/octet-stream",
+  size: file.size,
+});
+
+export const createUploadForm = (
+  file: Blob,
+  fileName: string,
+  contentType: string,
+): FormData => {
+  const form = new FormData();
+  const part =
+    file.type === contentType ? file : new Blob([file], { type: contentType });
+  form.append("file", part, fileName);
+  return form;
+};
+
+/**
+ * Sends `file` from `offset` on in `chunkSize` slices. The server may accept
+ * less than a whole chunk; the next slice starts where it reports it stopped.
+ */
+export const uploadChunks = async (
+  file: Blob,
+  options: {
+    uploadId: string;
+    offset: number;
+    chunkSize: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: TransferProgress) => void;
+  },
+  sendChunk: ChunkSender,
+): Promise<Attachment> => {
+  const { uploadId, chunkSize, signal, onProgress } = options;
+  const total = file.size;
+  let offset = options.offset;
+  // Report the upload id before the first chunk so callers can keep it for resuming.
+  onProgress?.({ loaded: offset, total, uploadId });
+
+  for (;;) {
+    throwIfAborted(signal);
+    const end = Math.min(offset + chunkSize, total);
+    const result = await sendChunk(
+      file.slice(offset, end),
+      `bytes ${offset}-${end - 1}/${total}`,
+    );
+    const received =
+      typeof result?.received === "number" ? result.received : end;
+    if (received <= offset) {
+      throw new SyncHiveError(
+        `Upload ${uploadId} made no progress at byte ${offset}.`,
+      );
+    }
+
+    offset = received;
+    onProgress?.({ loaded: offset, total, uploadId });
+    if (offset >= total) return result as Attachment;
+  }
+};
+
+/**
+ * Re-emits `body`, reporting progress as chunks are read. `onDone` runs once
+ * the stream ends, fails or is cancelled.
+ */
+export const trackBody = (
+  body: ReadableStream<Uint8Array>,
+  options: {
+    total?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: TransferProgress) => void;
+    onDone?: () => void;
+  },
+): ReadableStream<Uint8Array> => {
+  const { total, signal, onProgress, onDone } = options;
+  const reader = body.getReader();
+  let loaded = 0;
+  let finished = false;
+  const finish = (): void => {
+    if (finished) return;
+    finished = true;
+    onDone?.();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          controller.close();
+          return;
+        }
+        loaded += value.byteLength;
+        onProgress?.({ loaded, total });
+        controller.enqueue(value);
+      } catch (error) {
+        finish();
+        controller.error(signal?.aborted ? toAbortError(signal) : error);
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+};
+
+export const readContentLength = (headers: Headers): number | undefined => {
+  const length = Number(headers.get("Content-Length") ?? Number.NaN);
+  return Number.isFinite(length) && length >= 0 ? length : undefined;
+};
+
+export const readBlob = async (
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+): Promise<Blob> => {
+  const buffer = await new Response(body).arrayBuffer();
+  return new Blob([buffer], { type: contentType });
+};
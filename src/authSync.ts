@@ -0,0 +1,60 @@
+import { User, type UserManager } from "oidc-client-ts";
+
+type AuthSyncMessage =
+  { type: "userLoaded"; user: string } | { type: "userUnloaded" };
+
+/**
+ * Mirrors sign-in, token renewal and sign-out between tabs of the same app
+ * over a `BroadcastChannel`. Each tab keeps its own store, so this also works
+ * when users are only kept in memory. Returns a function that stops syncing.
+ */
+export const syncAuthAcrossTabs = (
+  userManager: UserManager,
+  channelName: string,
+): (() => void) => {
+  if (typeof BroadcastChannel === "undefined") return () => undefined;
+
+  const channel = new BroadcastChannel(channelName);
+  // Changes applied from another tab must not be sent back to it.
+  let isApplying = false;
+
+  const post = (message: AuthSyncMessage): void => {
+    if (!isApplying) channel.postMessage(message);
+  };
+
+  const apply = async (message: AuthSyncMessage): Promise<void> => {
+    isApplying = true;
+    try {
+      if (message.type === "userLoaded") {
+        const user = User.fromStorageString(message.user);
+        await userManager.storeUser(user);
+        userManager.events.load(user);
+      } else {
+        await userManager.removeUser();
+      }
+    } catch {
+      // A malformed message or a failing store leaves this tab as it was.
+    } finally {
+      isApplying = false;
+    }
+  };
+
+  const handleUserLoaded = (user: User): void => {
+    post({ type: "userLoaded", user: user.toStorageString() });
+  };
+  const handleUserUnloaded = (): void => {
+    post({ type: "userUnloaded" });
+  };
+
+  userManager.events.addUserLoaded(handleUserLoaded);
+  userManager.events.addUserUnloaded(handleUserUnloaded);
+  channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => {
+    void apply(event.data);
+  };
+
+  return () => {
+    userManager.events.removeUserLoaded(handleUserLoaded);
+    userManager.events.removeUserUnloaded(handleUserUnloaded);
+    channel.close();
+  };
+};
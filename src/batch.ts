@@ -0,0 +1,154 @@
+import type {
+  BatchOptions,
+  BatchResult,
+  GetOptions,
+  ShapeCreatePayload,
+  ShapeName,
+  ShapeRecordOf,
+  ShapeSchema,
+  ShapeUpdatePayload,
+  UntypedSchema,
+  UntypedShapeName,
+} from "./types";
+
+export const DEFAULT_BATCH_SIZE = 100;
+
+export type BatchOperation =
+  | { kind: "create"; shape: string; payload: unknown }
+  | {
+      kind: "update";
+      shape: string;
+      hiveId: string;
+      payload: unknown;
+      version?: string | false;
+    }
+  | {
+      kind: "get";
+      shape: string;
+      hiveId: string;
+      select?: readonly string[];
+      expand?: string | readonly string[];
+    };
+
+/** One operation as sent in the `requests` array of a batch call. */
+export type BatchRequest = {
+  id: string;
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+/** The server's answer to one `BatchRequest`, matched by `id`. */
+export type BatchResponse = {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+type RunBatch = (
+  operations: BatchOperation[],
+  options: BatchOptions | undefined,
+) => Promise<BatchResult[]>;
+
+type BatchGetOptions<T> = Pick<GetOptions<T>, "select" | "expand">;
+
+export const chunkOperations = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+};
+
+/**
+ * Collects `create`, `update` and `get` operations and sends them together
+ * with `send()`. Results come back in the order the operations were added.
+ */
+export class SyncHiveBatch<S extends ShapeSchema = UntypedSchema> {
+  private readonly operations: BatchOperation[] = [];
+  private readonly run: RunBatch;
+
+  constructor(run: RunBatch) {
+    this.run = run;
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  create<T>(shape: UntypedShapeName<S>, payload: T): this;
+  create<K extends ShapeName<S>>(
+    shape: K,
+    payload: ShapeCreatePayload<S, K>,
+  ): this;
+  create(shape: string, payload: unknown): this {
+    this.operations.push({ kind: "create", shape, payload });
+    return this;
+  }
+
+  update<T>(
+    shape: UntypedShapeName<S>,
+    hiveId: string,
+    payload: Partial<T> | T,
+    options?: { version?: string | false },
+  ): this;
+  update<K extends ShapeName<S>>(
+    shape: K,
+    hiveId: string,
+    payload: ShapeUpdatePayload<S, K>,
+    options?: { version?: string | false },
+  ): this;
+  update(
+    shape: string,
+    hiveId: string,
+    payload: unknown,
+    options?: { version?: string | false },
+  ): this {
+    this.operations.push({
+      kind: "update",
+      shape,
+      hiveId,
+      payload,
+      version: options?.version,
+    });
+    return this;
+  }
+
+  get<T>(
+    shape: UntypedShapeName<S>,
+    hiveId: string,
+    options?: BatchGetOptions<T>,
+  ): this;
+  get<K extends ShapeName<S>>(
+    shape: K,
+    hiveId: string,
+    options?: BatchGetOptions<ShapeRecordOf<S, K>>,
+  ): this;
+  get(
+    shape: string,
+    hiveId: string,
+    options?: {
+      select?: readonly string[];
+      expand?: string | readonly string[];
+    },
+  ): this {
+    this.operations.push({
+      kind: "get",
+      shape,
+      hiveId,
+      select: options?.select,
+      expand: options?.expand,
+    });
+    return this;
+  }
+
+  /**
+   * Sends every collected operation, `chunkSize` per request. A failed
+   * operation is reported in its result instead of rejecting the call.
+   */
+  send<T = unknown>(options?: BatchOptions): Promise<BatchResult<T>[]> {
+    return this.run([...this.operations], options) as Promise<BatchResult<T>[]>;
+  }
+}
@@ -0,0 +1,166 @@
+import type { CacheMode, CacheOptions } from "./types";
+
+type CacheKind = "list" | "get";
+
+type CacheEntry = {
+  shape: string;
+  kind: CacheKind;
+  value: unknown;
+  storedAt: number;
+};
+
+type InFlight = {
+  shape: string;
+  promise: Promise<unknown>;
+};
+
+type ResolvedCacheOptions = Required<CacheOptions>;
+
+const DEFAULT_CACHE_OPTIONS: ResolvedCacheOptions = {
+  ttl: 30_000,
+  staleWhileRevalidate: 5 * 60_000,
+  maxEntries: 500,
+};
+
+export const resolveCacheOptions = (
+  cache: CacheOptions | boolean | undefined,
+): ResolvedCacheOptions | undefined => {
+  if (!cache) return undefined;
+  return cache === true
+    ? DEFAULT_CACHE_OPTIONS
+    : { ...DEFAULT_CACHE_OPTIONS, ...cache };
+};
+
+/**
+ * In-memory cache for list/get responses keyed by request URL. Entries are
+ * grouped by shape so mutations can drop everything that might be stale.
+ */
+export class ReadCache {
+  private readonly options: ResolvedCacheOptions;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, InFlight>();
+  // Bumped on invalidation so responses that started earlier are not stored.
+  private readonly versions = new Map<string, number>();
+
+  constructor(options: ResolvedCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * `requestKey` identifies the request for sharing it with concurrent
+   * callers; calls made with different settings do not share one.
+   */
+  async read<T>(
+    key: string,
+    scope: { shape: string; kind: CacheKind },
+    load: () => Promise<T>,
+    mode: CacheMode = "default",
+    requestKey = key,
+  ): Promise<T> {
+    if (mode === "no-store") return load();
+
+    const entry = mode === "reload" ? undefined : this.entries.get(key);
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (age <= this.options.ttl) {
+        return cloneValue(entry.value as T);
+      }
+      if (age <= this.options.ttl + this.options.staleWhileRevalidate) {
+        this.load(key, requestKey, scope, load).catch(() => {
+          // Background revalidation failures keep serving the stale value.
+        });
+        return cloneValue(entry.value as T);
+      }
+    }
+
+    return cloneValue(await this.load(key, requestKey, scope, load));
+  }
+
+  invalidate(shape: string, key?: string): void {
+    this.versions.set(shape, this.getVersion(shape) + 1);
+
+    for (const [entryKey, entry] of this.entries) {
+      if (entry.shape !== shape) continue;
+      // A single record change can affect any list of that shape, and any
+      // projection of the record (`?select=...`).
+      if (
+        !key ||
+        entryKey === key ||
+        entryKey.startsWith(`${key}?`) ||
+        entry.kind === "list"
+      ) {
+        this.entries.delete(entryKey);
+      }
+    }
+
+    for (const [entryKey, pending] of this.inFlight) {
+      if (pending.shape === shape) this.inFlight.delete(entryKey);
+    }
+  }
+
+  clear(): void {
+    for (const shape of new Set(
+      [...this.entries.values(), ...this.inFlight.values()].map(
+        (entry) => entry.shape,
+      ),
+    )) {
+      this.versions.set(shape, this.getVersion(shape) + 1);
+    }
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  private load<T>(
+    key: string,
+    requestKey: string,
+    scope: { shape: string; kind: CacheKind },
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const pending = this.inFlight.get(requestKey);
+    if (pending) return pending.promise as Promise<T>;
+
+    const version = this.getVersion(scope.shape);
+    const promise = load()
+      .then((value) => {
+        if (this.getVersion(scope.shape) === version) {
+          this.store(key, scope, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(requestKey)?.promise === promise) {
+          this.inFlight.delete(requestKey);
+        }
+      });
+
+    this.inFlight.set(requestKey, { shape: scope.shape, promise });
+    return promise;
+  }
+
+  private store(
+    key: string,
+    scope: { shape: string; kind: CacheKind },
+    value: unknown,
+  ): void {
+    // Re-insert so Map order doubles as least-recently-stored eviction order.
+    this.entries.delete(key);
+    this.entries.set(key, { ...scope, value, storedAt: Date.now() });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private getVersion(shape: string): number {
+    return this.versions.get(shape) ?? 0;
+  }
+}
+
+const cloneValue = <T>(value: T): T => {
+  // Callers may mutate results; never hand out the cached instance.
+  if (value === undefined || value === null) return value;
+  if (typeof structuredClone === "function") return structuredClone(value);
+  return JSON.parse(JSON.stringify(value)) as T;
+};
@@ -0,0 +1,327 @@
+export type GenerateOptions = {
+  schemaName?: string;
+  importSource?: string;
+};
+
+type FieldModel = {
+  name: string;
+  type: string;
+  required: boolean;
+  serverGenerated: boolean;
+  description?: string;
+};
+
+type ShapeModel = {
+  name: string;
+  typeName: string;
+  fields: FieldModel[];
+  description?: string;
+};
+
+type JsonObject = Record<string, unknown>;
+
+const DEFAULT_SERVER_FIELDS = ["hiveId", "createdOn", "modifiedOn"];
+
+const identifierPattern = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Builds a TypeScript module from one or more shape definition documents.
+ * Shapes and fields are sorted by name so the output is stable across exports.
+ */
+export const generateShapeTypes = (
+  documents: unknown[],
+  options: GenerateOptions = {},
+): string => {
+  const schemaName = options.schemaName ?? "SyncHiveSchema";
+  const importSource = options.importSource ?? "@synchive/synchive-js";
+  const rawShapes = documents.flatMap(readShapeDefinitions);
+
+  const typeNames = new Map<string, string>();
+  for (const raw of rawShapes) {
+    typeNames.set(raw.name, toTypeName(raw.name));
+  }
+
+  const shapesByName = new Map<string, ShapeModel>();
+  for (const raw of rawShapes) {
+    if (shapesByName.has(raw.name)) {
+      throw new Error(`Shape "${raw.name}" is defined more than once.`);
+    }
+    shapesByName.set(raw.name, toShapeModel(raw, typeNames));
+  }
+
+  const shapes = [...shapesByName.values()].sort((a, b) =>
+    compare(a.name, b.name),
+  );
+  if (shapes.length === 0) {
+    throw new Error("No shape definitions were found in the input.");
+  }
+
+  const lines: string[] = [
+    "// Generated by synchive-js. Do not edit by hand.",
+    `import type { ShapeType } from "${importSource}";`,
+    "",
+  ];
+
+  for (const shape of shapes) {
+    lines.push(...formatDocComment(shape.description, ""));
+    lines.push(`export interface ${shape.typeName} {`);
+    for (const field of shape.fields) {
+      lines.push(...formatDocComment(field.description, "  "));
+      const optional = field.required ? "" : "?";
+      lines.push(`  ${formatKey(field.name)}${optional}: ${field.type};`);
+    }
+    lines.push("}", "");
+  }
+
+  lines.push(`export type ${schemaName} = {`);
+  for (const shape of shapes) {
+    const serverFields = shape.fields
+      .filter((field) => field.serverGenerated)
+      .map((field) => JSON.stringify(field.name));
+    const serverFieldType = serverFields.length
+      ? serverFields.join(" | ")
+      : "never";
+    lines.push(
+      `  ${formatKey(shape.name)}: ShapeType<${shape.typeName}, ${serverFieldType}>;`,
+    );
+  }
+  lines.push("};", "");
+
+  return lines.join("\n");
+};
+
+type RawShape = {
+  name: string;
+  description?: string;
+  fields: RawField[];
+};
+
+type RawField = {
+  name: string;
+  definition: JsonObject;
+  required: boolean;
+};
+
+const readShapeDefinitions = (document: unknown): RawShape[] => {
+  if (Array.isArray(document)) {
+    return document.flatMap(readShapeDefinitions);
+  }
+  if (!isObject(document)) {
+    throw new Error("Shape definition documents must be JSON objects.");
+  }
+
+  if (Array.isArray(document.shapes)) {
+    return document.shapes.map(readShapeExport);
+  }
+
+  const components = isObject(document.components)
+    ? document.components
+    : undefined;
+  const schemas = isObject(components?.schemas)
+    ? components.schemas
+    : isObject(document.definitions)
+      ? document.definitions
+      : undefined;
+  if (schemas) {
+    return Object.entries(schemas).map(([name, schema]) =>
+      readOpenApiSchema(name, schema),
+    );
+  }
+
+  if (typeof document.name === "string" && Array.isArray(document.fields)) {
+    return [readShapeExport(document)];
+  }
+
+  throw new Error(
+    'Unrecognized shape definition document. Expected "shapes", "components.schemas" or "definitions".',
+  );
+};
+
+const readShapeExport = (shape: unknown): RawShape => {
+  if (!isObject(shape) || typeof shape.name !== "string" || !shape.name) {
+    throw new Error("Every shape definition needs a name.");
+  }
+  const fields = Array.isArray(shape.fields) ? shape.fields : [];
+
+  return {
+    name: shape.name,
+    description: asString(shape.description),
+    fields: fields.map((field) => {
+      if (!isObject(field) || typeof field.name !== "string" || !field.name) {
+        throw new Error(`Shape "${shape.name}" has a field without a name.`);
+      }
+      return {
+        name: field.name,
+        definition: field,
+        required: field.required === true,
+      };
+    }),
+  };
+};
+
+const readOpenApiSchema = (name: string, schema: unknown): RawShape => {
+  if (!isObject(schema)) {
+    throw new Error(`Schema "${name}" must be an object.`);
+  }
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = Array.isArray(schema.required)
+    ? schema.required.filter((item): item is string => typeof item === "string")
+    : [];
+
+  return {
+    name,
+    description: asString(schema.description),
+    fields: Object.entries(properties).map(([fieldName, definition]) => ({
+      name: fieldName,
+      definition: isObject(definition) ? definition : {},
+      required: required.includes(fieldName),
+    })),
+  };
+};
+
+const toShapeModel = (
+  raw: RawShape,
+  typeNames: Map<string, string>,
+): ShapeModel => {
+  const fields = raw.fields
+    .map((field): FieldModel => {
+      const definition = field.definition;
+      const explicitServerFlag =
+        definition.serverGenerated ?? definition.readOnly;
+      return {
+        name: field.name,
+        type: toTsType(definition, typeNames, `${raw.name}.${field.name}`),
+        required: field.required,
+        serverGenerated:
+          typeof explicitServerFlag === "boolean"
+            ? explicitServerFlag
+            : DEFAULT_SERVER_FIELDS.includes(field.name),
+        description: asString(definition.description),
+      };
+    })
+    .sort((a, b) => compare(a.name, b.name));
+
+  return {
+    name: raw.name,
+    typeName: typeNames.get(raw.name) ?? toTypeName(raw.name),
+    description: raw.description,
+    fields,
+  };
+};
+
+const toTsType = (
+  definition: JsonObject,
+  typeNames: Map<string, string>,
+  location: string,
+): string => {
+  const baseType = toBaseTsType(definition, typeNames, location);
+  const isArray =
+    definition.isArray === true ||
+    definition.array === true ||
+    definition.type === "array";
+  const type =
+    isArray && definition.type !== "array"
+      ? `${wrapUnion(baseType)}[]`
+      : baseType;
+  return definition.nullable === true ? `${type} | null` : type;
+};
+
+const toBaseTsType = (
+  definition: JsonObject,
+  typeNames: Map<string, string>,
+  location: string,
+): string => {
+  const reference =
+    asString(definition.$ref) ??
+    asString(definition.shape) ??
+    asString(definition.reference);
+  if (reference) {
+    const shapeName = reference.split("/").pop() ?? reference;
+    const typeName = typeNames.get(shapeName);
+    if (!typeName) {
+      throw new Error(`${location} references unknown shape "${shapeName}".`);
+    }
+    return typeName;
+  }
+
+  const values = Array.isArray(definition.enum)
+    ? definition.enum
+    : Array.isArray(definition.values)
+      ? definition.values
+      : undefined;
+  if (values?.length) {
+    return [...values]
+      .map((value) => JSON.stringify(value))
+      .sort(compare)
+      .join(" | ");
+  }
+
+  const type = asString(definition.type)?.toLowerCase();
+  switch (type) {
+    case "array": {
+      const items = isObject(definition.items) ? definition.items : {};
+      return `${wrapUnion(toTsType(items, typeNames, `${location}[]`))}[]`;
+    }
+    case "string":
+    case "text":
+    case "date":
+    case "datetime":
+    case "date-time":
+    case "time":
+    case "uuid":
+    case "email":
+    case "url":
+      return "string";
+    case "number":
+    case "integer":
+    case "int":
+    case "long":
+    case "float":
+    case "double":
+    case "decimal":
+    case "currency":
+      return "number";
+    case "boolean":
+    case "bool":
+      return "boolean";
+    case "object":
+    case "json":
+      return "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+};
+
+const toTypeName = (shapeName: string): string => {
+  const words = shapeName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  if (!name) {
+    throw new Error(`Cannot derive a type name from shape "${shapeName}".`);
+  }
+  return /^[0-9]/.test(name) ? `Shape${name}` : name;
+};
+
+const formatKey = (name: string): string =>
+  identifierPattern.test(name) ? name : JSON.stringify(name);
+
+const formatDocComment = (
+  description: string | undefined,
+  indent: string,
+): string[] => {
+  if (!description?.trim()) return [];
+  const text = description.trim().replace(/\*\//g, "*\\/");
+  return [`${indent}/** ${text.replace(/\s*\n\s*/g, " ")} */`];
+};
+
+const wrapUnion = (type: string): string =>
+  type.includes(" | ") ? `(${type})` : type;
+
+const compare = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import { generateShapeTypes } from "./generate";
+
+type GenerateArgs = {
+  inputs: string[];
+  out?: string;
+  watch: boolean;
+  schemaName?: string;
+  importSource?: string;
+};
+
+const USAGE = `Usage: synchive-js generate --input <file> [--input <file>...] [--out <file>] [options]
+
+Generates TypeScript record types and a shape schema for SyncHiveClient
+from shape definition exports (SyncHive JSON or OpenAPI documents).
+
+Options:
+  -i, --input <file>        Shape definition file (repeatable)
+  -o, --out <file>          Output file (prints to stdout when omitted)
+  -w, --watch               Regenerate when an input file changes
+      --name <name>         Schema type name (default: SyncHiveSchema)
+      --import-source <id>  Module to import ShapeType from
+                            (default: @synchive/synchive-js)
+  -h, --help                Show this help
+`;
+
+const parseGenerateArgs = (argv: string[]): GenerateArgs => {
+  const args: GenerateArgs = { inputs: [], watch: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    const [flag, inlineValue] = arg.startsWith("--")
+      ? (arg.split(/=(.*)/s, 2) as [string, string | undefined])
+      : [arg, undefined];
+    const readValue = (): string => {
+      const value = inlineValue ?? argv[++index];
+      if (!value || value.startsWith("-")) {
+        throw new Error(`${flag} requires a value.`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case "-i":
+      case "--input":
+        args.inputs.push(readValue());
+        break;
+      case "-o":
+      case "--out":
+        args.out = readValue();
+        break;
+      case "-w":
+      case "--watch":
+        args.watch = true;
+        break;
+      case "--name":
+        args.schemaName = readValue();
+        break;
+      case "--import-source":
+        args.importSource = readValue();
+        break;
+      default:
+        throw new Error(`Unknown option "${arg}".`);
+    }
+  }
+
+  if (args.inputs.length === 0) {
+    throw new Error("At least one --input file is required.");
+  }
+  if (args.watch && !args.out) {
+    throw new Error("--watch requires --out.");
+  }
+
+  return args;
+};
+
+const readDocument = (file: string): unknown => {
+  const text = fs.readFileSync(file, "utf8");
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${file} is not valid JSON: ${reason}`);
+  }
+};
+
+const runGenerate = (args: GenerateArgs): void => {
+  const output = generateShapeTypes(args.inputs.map(readDocument), {
+    schemaName: args.schemaName,
+    importSource: args.importSource,
+  });
+
+  if (!args.out) {
+    process.stdout.write(output);
+    return;
+  }
+
+  // Skip unchanged writes so watch mode does not churn file watchers downstream.
+  const existing = fs.existsSync(args.out)
+    ? fs.readFileSync(args.out, "utf8")
+    : undefined;
+  if (existing === output) return;
+
+  fs.mkdirSync(path.dirname(args.out), { recursive: true });
+  fs.writeFileSync(args.out, output);
+  process.stderr.write(`synchive-js: wrote ${args.out}\n`);
+};
+
+const watchGenerate = (args: GenerateArgs): void => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const regenerate = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        runGenerate(args);
+      } catch (error) {
+        reportError(error);
+      }
+    }, 100);
+  };
+
+  // Watch directories so editors that replace files on save are still seen.
+  const directories = new Set(
+    args.inputs.map((input) => path.dirname(path.resolve(input))),
+  );
+  const inputNames = new Set(args.inputs.map((input) => path.resolve(input)));
+  for (const directory of directories) {
+    fs.watch(directory, (_event, filename) => {
+      if (!filename) return;
+      if (inputNames.has(path.join(directory, filename.toString()))) {
+        regenerate();
+      }
+    });
+  }
+
+  process.stderr.write("synchive-js: watching for changes...\n");
+};
+
+const reportError = (error: unknown): void => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`synchive-js: ${message}\n`);
+};
+
+const main = (argv: string[]): number => {
+  const [command, ...rest] = argv;
+
+  if (!command || command === "-h" || command === "--help") {
+    process.stdout.write(USAGE);
+    return command ? 0 : 1;
+  }
+  if (command !== "generate") {
+    reportError(`Unknown command "${command}".`);
+    process.stderr.write(USAGE);
+    return 1;
+  }
+  if (rest.includes("-h") || rest.includes("--help")) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  let args: GenerateArgs;
+  try {
+    args = parseGenerateArgs(rest);
+  } catch (error) {
+    reportError(error);
+    return 1;
+  }
+
+  try {
+    runGenerate(args);
+  } catch (error) {
+    reportError(error);
+    // In watch mode keep running so the next save can fix the input.
+    if (!args.watch) return 1;
+  }
+
+  if (args.watch) {
+    watchGenerate(args);
+  }
+  return 0;
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,46 +1,188 @@
 import {
   UserManager,
-  WebStorageStateStore,
+  type ExtraSigninRequestArgs,
+  type WebStorageStateStore,
   type User,
   type UserManagerSettings,
 } from "oidc-client-ts";
+import {
+  abortable,
+  createRequestSignal,
+  throwIfAborted,
+  toAbortError,
+} from "./abort";
+import {
+  createUploadForm,
+  DEFAULT_CHUNK_SIZE,
+  describeFile,
+  readBlob,
+  readContentLength,
+  trackBody,
+  uploadChunks,
+  type UploadSession,
+} from "./attachments";
+import {
+  chunkOperations,
+  DEFAULT_BATCH_SIZE,
+  SyncHiveBatch,
+  type BatchOperation,
+  type BatchRequest,
+  type BatchResponse,
+} from "./batch";
+import { ReadCache, resolveCacheOptions } from "./cache";
+import {
+  createHttpError,
+  isAbortError,
+  isConflictError,
+  isNotAuthenticatedError,
+  SyncHiveError,
+  type SyncHiveConflictError,
+  SyncHiveNetworkError,
+  SyncHiveNotAuthenticatedError,
+  SyncHiveSignInCallbackError,
+} from "./errors";
+import { runMiddleware } from "./middleware";
+import { createStorageQueueStore, OfflineQueue } from "./offline";
+import { syncAuthAcrossTabs } from "./authSync";
+import {
+  createMemoryStorage,
+  normalizeAuthStorage,
+  resolveAuthStore,
+} from "./storage";
+import {
+  detectTenantScope,
+  formatTenantScopePath,
+  getTenantAppBasePath,
+  replaceTenantScopePath,
+} from "./scope";
+import { ShapeSubscription } from "./subscription";
+import { resolveTokenProvider } from "./tokens";
+import { iterateRecords, paginateList } from "./pagination";
+import { where, type FieldOf, type FilterValue } from "./query";
+import { getShapeValidator, parseListResult, parseWith } from "./validation";
+import { attachListVersions, getVersion, setVersion } from "./versions";
+import {
+  createIdempotencyKey,
+  getRetryDelay,
+  IDEMPOTENCY_KEY_HEADER,
+  isIdempotentMethod,
+  isRetryableStatus,
+  resolveRetryPolicy,
+  sleep,
+  type RetryPolicy,
+} from "./retry";
 import type {
+  AccessTokenResult,
+  Attachment,
+  AuthCallbackResult,
   AuthState,
+  AuthStateChangeDetails,
   AuthStateChangeListener,
+  AuthStateChangeOptions,
   AuthStateChangeTrigger,
   AuthStateChangeUnsubscribe,
+  BatchOptions,
+  BatchResult,
+  BulkResult,
+  BulkUpdate,
+  DownloadAttachmentOptions,
   FetchLike,
+  GetOptions,
+  InitOptions,
   ListParams,
   ListResult,
+  Middleware,
+  MiddlewareRequest,
+  OfflineMutation,
+  OfflineQueueListener,
+  PaginateOptions,
+  RequestOptions,
+  RetryOptions,
+  SelectedRecord,
+  ShapeChangeHandler,
+  ShapeCreatePayload,
+  ShapeName,
+  ShapeRecordOf,
+  ShapeSchema,
+  ShapeUpdatePayload,
+  ShapeValidator,
+  ShapeValidators,
+  SignInOptions,
+  SubscribeOptions,
+  SubscriptionUnsubscribe,
   SynchiveClientOptions,
+  TenantScope,
+  TokenProvider,
+  UntypedSchema,
+  UntypedShapeName,
+  UpdateOptions,
+  UploadAttachmentOptions,
+  UpsertOptions,
 } from "./types";
 
-const normalizeBaseUrl = (baseUrl: string): string => {
-  if (!baseUrl) return "";
-  return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
+type Entity<T> = {
+  data: T;
+  version: string | null;
 };
 
-const tenantAppBasePathPattern = /^\/workspace\/[^/]+\/hive\/[^/]+/;
+type AuthEventListener = (
+  trigger: AuthStateChangeTrigger,
+  details: AuthStateChangeDetails,
+) => void;
+
+// Triggers that only report the current state; repeats of an unchanged state are dropped.
+const STATE_TRIGGERS: AuthStateChangeTrigger[] = [
+  "initialState",
+  "authenticated",
+  "unauthenticated",
+  "tokenRefreshed",
+];
+
+// Sign-in state shared by a client and the clients it creates with forHive().
+type AuthSession = {
+  userManager?: UserManager;
+  tokenProvider?: TokenProvider;
+  tokenAuthority?: string;
+  tokenClientId?: string;
+  authEvents: Set<AuthEventListener>;
+  signingOut: boolean;
+  navigate?: InitOptions["navigate"];
+  hasProviderToken: boolean;
+  providerToken?: string;
+  providerCheck?: Promise<void>;
+  renewalListeners: Set<() => void>;
+  pendingRenewal: Promise<User | null> | null;
+  stopTabSync?: () => void;
+};
 
-const getTenantAppBasePath = (pathname?: string): string => {
-  if (pathname) {
-    const match = pathname.match(tenantAppBasePathPattern);
-    return match?.[0] ?? "";
-  }
+// Lets forHive() hand its session to the new client without a public constructor argument.
+const sharedSessions = new WeakMap<SynchiveClientOptions, AuthSession>();
 
-  if (typeof window === "undefined") return "";
-  return getTenantAppBasePath(window.location.pathname);
+// An explicit version wins; `false` opts out of the check entirely.
+const resolveVersion = (
+  payload: unknown,
+  options: UpdateOptions | undefined,
+): string | undefined =>
+  options?.version === false
+    ? undefined
+    : (options?.version ?? getVersion(payload));
+
+const normalizeBaseUrl = (baseUrl: string): string => {
+  if (!baseUrl) return "";
+  return baseUrl.endsWith("/") ? baseUrl.slice(0, -1) : baseUrl;
 };
 
-const applyTenantAppBasePathToApiBaseUrl = (baseUrl: string): string => {
+const applyTenantScopeToApiBaseUrl = (
+  baseUrl: string,
+  scope: TenantScope | undefined,
+): string => {
   const normalizedBaseUrl = normalizeBaseUrl(baseUrl);
-  const tenantAppBasePath = getTenantAppBasePath();
 
-  if (!normalizedBaseUrl || !tenantAppBasePath) {
+  if (!normalizedBaseUrl || !scope) {
     return normalizedBaseUrl;
   }
 
-  const tenantApiPath = tenantAppBasePath.replace(/^\//, "");
+  const scopePath = formatTenantScopePath(scope);
 
   try {
     const url = new URL(
@@ -48,15 +190,14 @@ const applyTenantAppBasePathToApiBaseUrl = (baseUrl: string): string => {
       typeof window === "undefined" ? undefined : window.location.origin,
     );
 
-    if (url.pathname.includes(`/${tenantApiPath}`)) {
-      return normalizeBaseUrl(url.toString());
-    }
-
-    if (url.pathname.endsWith("/shape")) {
+    const replaced = replaceTenantScopePath(url.pathname, scopePath);
+    if (replaced !== undefined) {
+      url.pathname = replaced;
+    } else if (url.pathname.endsWith("/shape")) {
       const prefix = url.pathname.slice(0, -"/shape".length).replace(/\/$/, "");
-      url.pathname = `${prefix}/${tenantApiPath}/shape`;
+      url.pathname = `${prefix}${scopePath}/shape`;
     } else {
-      url.pathname = `${url.pathname.replace(/\/$/, "")}/${tenantApiPath}`;
+      url.pathname = `${url.pathname.replace(/\/$/, "")}${scopePath}`;
     }
 
     return normalizeBaseUrl(url.toString());
@@ -65,6 +206,26 @@ const applyTenantAppBasePathToApiBaseUrl = (baseUrl: string): string => {
   }
 };
 
+const resolveTenantScope = (
+  options: SynchiveClientOptions,
+): TenantScope | undefined => {
+  const detected = detectTenantScope();
+  if (!options.hiveId) {
+    if (options.workspaceId) {
+      throw new Error("hiveId is required when workspaceId is provided.");
+    }
+    return detected;
+  }
+
+  const workspaceId = options.workspaceId ?? detected?.workspaceId;
+  if (!workspaceId) {
+    throw new Error(
+      "workspaceId is required with hiveId when it cannot be detected from the current path.",
+    );
+  }
+  return { workspaceId, hiveId: options.hiveId };
+};
+
 const getDefaultRedirectUrl = (): string => {
   if (typeof window === "undefined") {
     throw new Error("Browser redirects require a window environment.");
@@ -76,9 +237,9 @@ const getDefaultRedirectUrl = (): string => {
   ).toString();
 };
 
-const defaultBuildListUrl = (
+const defaultBuildListUrl = <T>(
   shape: string,
-  params: ListParams | undefined,
+  params: ListParams<T> | undefined,
   baseUrl: string,
 ): string => {
   const url = new URL(
@@ -88,8 +249,13 @@ const defaultBuildListUrl = (
     url.searchParams.set("top", String(params.top));
   if (params?.skip !== undefined)
     url.searchParams.set("skip", String(params.skip));
-  if (params?.filter) url.searchParams.set("filter", params.filter);
-  if (params?.orderby) url.searchParams.set("orderby", params.orderby);
+  if (params?.filter) url.searchParams.set("filter", String(params.filter));
+  if (params?.orderby) url.searchParams.set("orderby", String(params.orderby));
+  setProjectionParams(url, params);
+  if (params?.count !== undefined) {
+    url.searchParams.set("count", String(params.count));
+  }
+  if (params?.cursor) url.searchParams.set("cursor", params.cursor);
   return url.toString();
 };
 
@@ -97,8 +263,30 @@ const defaultBuildGetUrl = (
   shape: string,
   hiveId: string,
   baseUrl: string,
+  options?: { select?: readonly string[]; expand?: string | readonly string[] },
 ): string => {
-  return `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}`;
+  const url = `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}`;
+  if (!options?.select?.length && !options?.expand?.length) return url;
+
+  const withParams = new URL(url);
+  setProjectionParams(withParams, options);
+  return withParams.toString();
+};
+
+const setProjectionParams = (
+  url: URL,
+  params:
+    | { select?: readonly string[]; expand?: string | readonly string[] }
+    | undefined,
+): void => {
+  if (params?.select?.length) {
+    url.searchParams.set("select", params.select.join(","));
+  }
+  const expand =
+    typeof params?.expand === "string"
+      ? params.expand
+      : params?.expand?.join(",");
+  if (expand) url.searchParams.set("expand", expand);
 };
 
 const defaultBuildCreateUrl = (shape: string, baseUrl: string): string => {
@@ -113,8 +301,108 @@ const defaultBuildUpdateUrl = (
   return `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}`;
 };
 
+const defaultBuildReplaceUrl = (
+  shape: string,
+  hiveId: string,
+  baseUrl: string,
+): string => {
+  return `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}`;
+};
+
+const defaultBuildDeleteUrl = (
+  shape: string,
+  hiveId: string,
+  baseUrl: string,
+): string => {
+  return `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}`;
+};
+
+const defaultBuildAttachmentUrl = (
+  shape: string,
+  hiveId: string,
+  field: string,
+  baseUrl: string,
+): string => {
+  return `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/${encodeURIComponent(hiveId)}/attachments/${encodeURIComponent(field)}`;
+};
+
+const defaultBuildBatchUrl = (baseUrl: string): string => {
+  return `${normalizeBaseUrl(baseUrl)}/$batch`;
+};
+
+const defaultBuildSubscribeUrl = <T>(
+  shape: string,
+  options: SubscribeOptions<T>,
+  baseUrl: string,
+): string => {
+  const url = new URL(
+    `${normalizeBaseUrl(baseUrl)}/${encodeURIComponent(shape)}/events`,
+  );
+  if (options.hiveId) url.searchParams.set("hiveId", options.hiveId);
+  if (options.filter) url.searchParams.set("filter", String(options.filter));
+  return url.toString();
+};
+
+const toUpsertKeyValue = (field: string, value: unknown): FilterValue => {
+  if (
+    value === null ||
+    value instanceof Date ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+
+  throw new SyncHiveError(
+    value === undefined
+      ? `upsert() payload is missing key field "${field}".`
+      : `upsert() key field "${field}" must be a string, number, boolean, Date or null.`,
+  );
+};
+
+const getScopedQueueKey = (
+  options: SynchiveClientOptions,
+  scope: TenantScope | undefined,
+): string | undefined =>
+  // Explicitly scoped clients (including forHive()) keep separate queues.
+  options.hiveId && scope
+    ? `synchive.offlineQueue:${scope.workspaceId}/${scope.hiveId}`
+    : undefined;
+
+const toBulkResult = <T>(results: BatchResult<T>[]): BulkResult<T> => {
+  const bulk: BulkResult<T> = { results, succeeded: [], failed: [] };
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") bulk.succeeded.push(result.value);
+    else bulk.failed.push({ index, error: result.reason });
+  });
+  return bulk;
+};
+
+// Aborts and rejected tokens keep their own error so callers can tell them apart.
+const toUnsentReason = (requestError: unknown): unknown =>
+  isAbortError(requestError) || isNotAuthenticatedError(requestError)
+    ? requestError
+    : new SyncHiveError(
+        "Not sent because an earlier batch request failed.",
+        requestError,
+      );
+
+const hasHeaders = (headers: HeadersInit | undefined): boolean => {
+  let found = false;
+  new Headers(headers ?? {}).forEach(() => {
+    found = true;
+  });
+  return found;
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  if (response.status === 204) return undefined as T;
+  return (await response.json()) as T;
+};
+
 const getDefaultStorage = (): Storage | undefined => {
-  if (typeof window === "undefined") return undefined;
+  if (typeof window === "undefined") return createMemoryStorage();
   if (window.localStorage) return window.localStorage;
   return undefined;
 };
@@ -124,10 +412,22 @@ const getDefaultFetch = (): FetchLike => {
   throw new Error("Fetch API is not available in this environment.");
 };
 
-export class SyncHiveClient {
+export class SyncHiveClient<S extends ShapeSchema = UntypedSchema> {
   private readonly apiBaseUrl: string;
   private readonly fetchFn: FetchLike;
-  private readonly userManager: UserManager;
+  private readonly retry: RetryOptions | false | undefined;
+  private readonly middleware: Middleware[];
+  private readonly validators: ShapeValidators | undefined;
+  private readonly timeout: number | undefined;
+  private readonly cache: ReadCache | undefined;
+  private readonly offlineQueue: OfflineQueue | undefined;
+  private readonly options: SynchiveClientOptions;
+  private readonly storage: Storage;
+  private readonly scope: TenantScope | undefined;
+  private readonly session: AuthSession;
+  private readonly hiveClients = new Map<string, SyncHiveClient<S>>();
+  private readonly disposers: (() => void)[] = [];
+  private readonly ownsSession: boolean;
 
   constructor(options: SynchiveClientOptions) {
     const publishableKey = options.publishableKey?.trim();
@@ -135,9 +435,7 @@ export class SyncHiveClient {
       ? decodePublishableKey(publishableKey)
       : undefined;
     const derivedApiBaseUrl = parsedPublishableKey
-      ? applyTenantAppBasePathToApiBaseUrl(
-          getPublishableKeyApiBaseUrl(parsedPublishableKey),
-        )
+      ? getPublishableKeyApiBaseUrl(parsedPublishableKey)
       : undefined;
     const apiBaseUrl = options.apiBaseUrl ?? derivedApiBaseUrl;
     if (!apiBaseUrl) {
@@ -153,19 +451,112 @@ export class SyncHiveClient {
       );
     }
 
-    const auth = resolveAuthSettings({
-      publishableKey,
-      parsed: parsedPublishableKey,
-      options,
-      storage,
-    });
+    this.ownsSession = !sharedSessions.has(options);
+    this.session =
+      sharedSessions.get(options) ??
+      createAuthSession({
+        publishableKey,
+        parsed: parsedPublishableKey,
+        options,
+        storage,
+      });
 
-    this.userManager = new UserManager(auth);
-    this.apiBaseUrl = applyTenantAppBasePathToApiBaseUrl(apiBaseUrl);
+    this.options = options;
+    this.storage = storage;
+    this.scope = resolveTenantScope(options);
+    this.apiBaseUrl = applyTenantScopeToApiBaseUrl(apiBaseUrl, this.scope);
     this.fetchFn = options.fetch ?? getDefaultFetch();
+    this.retry = options.retry;
+    this.middleware = options.middleware ?? [];
+    this.validators = options.validators;
+    this.timeout = options.timeout;
+
+    const cacheOptions = resolveCacheOptions(options.cache);
+    if (cacheOptions) this.cache = new ReadCache(cacheOptions);
+
+    if (options.offline) {
+      const offlineOptions = options.offline === true ? {} : options.offline;
+      this.offlineQueue = new OfflineQueue(
+        offlineOptions.store ??
+          createStorageQueueStore(
+            storage,
+            offlineOptions.storageKey ?? getScopedQueueKey(options, this.scope),
+          ),
+        offlineOptions,
+        (mutation) => this.replayOfflineMutation(mutation),
+        () => this.getOfflineQueueOwner(),
+      );
+      if (
+        offlineOptions.replayOnReconnect !== false &&
+        typeof window !== "undefined"
+      ) {
+        const replay = (): void => this.replayOfflineQueue();
+        window.addEventListener("online", replay);
+        this.disposers.push(() => window.removeEventListener("online", replay));
+      }
+    }
+
+    if (this.cache) this.clearCacheOnSignOut();
+  }
+
+  /**
+   * Removes the listeners this client and its `forHive()` clients registered
+   * and closes the cross-tab sign-in channel. Call it when a client is
+   * discarded while the page keeps running.
+   */
+  dispose(): void {
+    for (const dispose of this.disposers.splice(0)) dispose();
+    for (const client of this.hiveClients.values()) client.dispose();
+    this.hiveClients.clear();
+    // forHive() clients share the session; only the client that created it closes it.
+    if (this.ownsSession) {
+      this.session.stopTabSync?.();
+      this.session.stopTabSync = undefined;
+    }
+  }
+
+  /**
+   * Returns a client for another hive in the same workspace. It shares this
+   * client's sign-in session and options; repeated calls reuse one instance.
+   */
+  forHive(hiveId: string): SyncHiveClient<S> {
+    if (!hiveId) throw new Error("forHive() requires a hiveId.");
+    if (!this.scope) {
+      throw new Error(
+        "forHive() requires workspaceId (or a /workspace/:id/hive/:id path to detect it from).",
+      );
+    }
+
+    const existing = this.hiveClients.get(hiveId);
+    if (existing) return existing;
+
+    const options: SynchiveClientOptions = {
+      ...this.options,
+      storage: this.storage,
+      workspaceId: this.scope.workspaceId,
+      hiveId,
+    };
+    sharedSessions.set(options, this.session);
+    const client = new SyncHiveClient<S>(options);
+    this.hiveClients.set(hiveId, client);
+    return client;
+  }
+
+  getScope(): TenantScope | undefined {
+    return this.scope ? { ...this.scope } : undefined;
   }
 
-  async init(): Promise<void> {
+  /**
+   * Completes a sign-in or sign-out callback when the page is one, then
+   * replays the offline queue. Resolves with the callback result, or `null`.
+   */
+  async init(options?: InitOptions): Promise<AuthCallbackResult | null> {
+    this.session.navigate = options?.navigate;
+    if (this.session.tokenProvider) {
+      this.replayOfflineQueue();
+      return null;
+    }
+
     const hasCallbackParams = this.isRedirectCallback();
     const isSignOutCallback =
       hasCallbackParams && this.isSignOutRedirectCallback();
@@ -174,168 +565,1519 @@ export class SyncHiveClient {
       if (isPopupWindow) {
         // Close stale popup callback windows that no longer have auth params.
         window.close();
+        return null;
       }
-      return;
+      this.replayOfflineQueue();
+      return null;
     }
 
+    let result: AuthCallbackResult | null;
     try {
-      await this.handleAuthCallback(isSignOutCallback);
+      result = await this.handleAuthCallback(isSignOutCallback);
       if (hasCallbackParams) {
         this.clearAuthParamsFromUrl();
       }
+      this.replayOfflineQueue();
     } catch (error) {
       // Some preview/router setups strip popup callback params. Close that stale popup.
       if (isPopupWindow && this.isMissingCallbackStateError(error)) {
         window.close();
-        return;
+        return null;
       }
-      throw error;
+      throw new SyncHiveSignInCallbackError({
+        isSignOut: isSignOutCallback,
+        cause: error,
+      });
     }
+
+    if (result?.type === "signIn" && result.returnTo) {
+      this.navigateTo(result.returnTo);
+    }
+    return result;
   }
 
-  async signInRedirect(): Promise<void> {
+  /**
+   * Starts sign-in. `returnTo` (default: the current location) is kept in the
+   * OIDC state and reported by `init()` once the user is back. Inside an
+   * iframe a popup is used and this resolves with the result; otherwise the
+   * page navigates away and this resolves with `null`.
+   */
+  async signInRedirect(
+    options?: SignInOptions,
+  ): Promise<AuthCallbackResult | null> {
+    this.requireUserManager("signInRedirect()");
+    const args = this.toSignInArgs(options);
     if (this.isInIframe()) {
-      await this.signInWithPopupOrRedirectFallback();
-      return;
+      return this.signInWithPopupOrRedirectFallback(args);
     }
 
-    await this.signInWithRedirect();
+    await this.signInWithRedirect(args);
+    return null;
   }
 
   async signOutRedirect(): Promise<void> {
-    await this.userManager.signoutRedirect();
+    const userManager = this.requireUserManager("signOutRedirect()");
+    this.cache?.clear();
+    await this.offlineQueue?.discard("the user signed out");
+    // signoutRedirect() removes the user first; report that as "signedOut".
+    this.session.signingOut = true;
+    try {
+      await userManager.signoutRedirect();
+    } finally {
+      this.session.signingOut = false;
+    }
   }
 
   async getUser(): Promise<User | null> {
-    return this.userManager.getUser();
+    if (!this.session.userManager) return null;
+    return this.session.userManager.getUser();
   }
 
+  /**
+   * Calls `listener` with the current auth state, then whenever it changes.
+   * By default triggers are reduced to "authenticated"/"unauthenticated";
+   * pass `{ detailed: true }` to receive every lifecycle trigger.
+   */
   onAuthStateChange(
     listener: AuthStateChangeListener,
+    options?: AuthStateChangeOptions,
   ): AuthStateChangeUnsubscribe {
-    const events = this.userManager.events;
+    const detailed = options?.detailed === true;
     let isSubscribed = true;
-
-    const emitState = (user: User | null): void => {
+    let lastState: AuthState | undefined;
+    let lastKey: string | undefined;
+
+    const deliver = (
+      state: AuthState,
+      trigger: AuthStateChangeTrigger,
+      details: AuthStateChangeDetails,
+    ): void => {
       if (!isSubscribed) return;
-      const trigger = this.toAuthStateChangeTrigger(user);
-      listener(this.toAuthState(user), trigger);
+      const key = this.getAuthStateKey(state);
+      if (key === lastKey && (!detailed || STATE_TRIGGERS.includes(trigger))) {
+        return;
+      }
+
+      lastKey = key;
+      lastState = state;
+      listener(
+        state,
+        detailed ? trigger : this.toAuthStateChangeTrigger(state),
+        details,
+      );
     };
 
-    const emitCurrentState = async (): Promise<void> => {
-      const user = await this.userManager.getUser();
-      if (!isSubscribed) return;
-      emitState(user);
+    const emit = async (
+      trigger: AuthStateChangeTrigger,
+      details: AuthStateChangeDetails = {},
+    ): Promise<void> => {
+      const state = await this.getAuthState();
+      deliver(state, trigger, details);
     };
 
+    const handleAuthEvent: AuthEventListener = (trigger, details) => {
+      void emit(trigger, details);
+    };
+    this.session.authEvents.add(handleAuthEvent);
+
+    const events = this.session.userManager?.events;
     const handleUserLoaded = (user: User): void => {
-      emitState(user);
+      deliver(
+        this.toAuthState(user),
+        lastState?.isAuthenticated ? "tokenRefreshed" : "authenticated",
+        {},
+      );
     };
 
     const handleUserUnloaded = (): void => {
-      void emitCurrentState();
+      void emit(this.session.signingOut ? "signedOut" : "unauthenticated");
     };
 
     const handleUserSignedOut = (): void => {
-      void emitCurrentState();
+      void emit("signedOut");
+    };
+
+    const handleAccessTokenExpiring = (): void => {
+      void this.getUser().then((user) =>
+        emit("sessionExpiring", { expiresIn: user?.expires_in }),
+      );
     };
 
     const handleAccessTokenExpired = (): void => {
-      void emitCurrentState();
+      void emit("unauthenticated");
     };
 
-    const handleSilentRenewError = (): void => {
-      void emitCurrentState();
+    const handleSilentRenewError = (error: Error): void => {
+      void emit("renewFailed", { error });
     };
 
-    events.addUserLoaded(handleUserLoaded);
-    events.addUserUnloaded(handleUserUnloaded);
-    events.addUserSignedOut(handleUserSignedOut);
-    events.addAccessTokenExpired(handleAccessTokenExpired);
-    events.addSilentRenewError(handleSilentRenewError);
+    events?.addUserLoaded(handleUserLoaded);
+    events?.addUserUnloaded(handleUserUnloaded);
+    events?.addUserSignedOut(handleUserSignedOut);
+    events?.addAccessTokenExpiring(handleAccessTokenExpiring);
+    events?.addAccessTokenExpired(handleAccessTokenExpired);
+    events?.addSilentRenewError(handleSilentRenewError);
 
-    void emitCurrentState();
+    void emit("initialState");
 
     return () => {
       isSubscribed = false;
-      events.removeUserLoaded(handleUserLoaded);
-      events.removeUserUnloaded(handleUserUnloaded);
-      events.removeUserSignedOut(handleUserSignedOut);
-      events.removeAccessTokenExpired(handleAccessTokenExpired);
-      events.removeSilentRenewError(handleSilentRenewError);
+      this.session.authEvents.delete(handleAuthEvent);
+      events?.removeUserLoaded(handleUserLoaded);
+      events?.removeUserUnloaded(handleUserUnloaded);
+      events?.removeUserSignedOut(handleUserSignedOut);
+      events?.removeAccessTokenExpiring(handleAccessTokenExpiring);
+      events?.removeAccessTokenExpired(handleAccessTokenExpired);
+      events?.removeSilentRenewError(handleSilentRenewError);
     };
   }
 
-  async list<T>(shape: string, params?: ListParams): Promise<ListResult<T>> {
-    const url = defaultBuildListUrl(shape, params, this.apiBaseUrl);
-    return this.request<ListResult<T>>(url);
+  list<T>(
+    shape: UntypedShapeName<S>,
+    params?: ListParams<T>,
+    options?: RequestOptions,
+  ): Promise<ListResult<T>>;
+  list<
+    K extends ShapeName<S>,
+    F extends FieldOf<ShapeRecordOf<S, K>> = FieldOf<ShapeRecordOf<S, K>>,
+  >(
+    shape: K,
+    params?: ListParams<ShapeRecordOf<S, K>, F>,
+    options?: RequestOptions,
+  ): Promise<ListResult<SelectedRecord<ShapeRecordOf<S, K>, F>>>;
+  async list<T>(
+    shape: string,
+    params?: ListParams<T>,
+    options?: RequestOptions,
+  ): Promise<ListResult<T>> {
+    return this.listUntyped<T>(shape, params ?? {}, options);
   }
 
-  async get<T>(shape: string, hiveId: string): Promise<T> {
-    const url = defaultBuildGetUrl(shape, hiveId, this.apiBaseUrl);
-    return this.request<T>(url);
+  paginate<T>(
+    shape: UntypedShapeName<S>,
+    params?: ListParams<T>,
+    options?: PaginateOptions,
+  ): AsyncIterable<ListResult<T>>;
+  paginate<
+    K extends ShapeName<S>,
+    F extends FieldOf<ShapeRecordOf<S, K>> = FieldOf<ShapeRecordOf<S, K>>,
+  >(
+    shape: K,
+    params?: ListParams<ShapeRecordOf<S, K>, F>,
+    options?: PaginateOptions,
+  ): AsyncIterable<ListResult<SelectedRecord<ShapeRecordOf<S, K>, F>>>;
+  paginate<T>(
+    shape: string,
+    params?: ListParams<T>,
+    options?: PaginateOptions,
+  ): AsyncIterable<ListResult<T>> {
+    return paginateList(
+      (pageParams) => this.listUntyped<T>(shape, pageParams, options),
+      params,
+      options,
+    );
   }
 
-  async create<T>(shape: string, payload: T): Promise<T> {
-    const url = defaultBuildCreateUrl(shape, this.apiBaseUrl);
-    return this.request<T>(url, {
-      method: "POST",
-      body: JSON.stringify(payload),
+  listAll<T>(
+    shape: UntypedShapeName<S>,
+    params?: ListParams<T>,
+    options?: PaginateOptions,
+  ): AsyncIterable<T>;
+  listAll<
+    K extends ShapeName<S>,
+    F extends FieldOf<ShapeRecordOf<S, K>> = FieldOf<ShapeRecordOf<S, K>>,
+  >(
+    shape: K,
+    params?: ListParams<ShapeRecordOf<S, K>, F>,
+    options?: PaginateOptions,
+  ): AsyncIterable<SelectedRecord<ShapeRecordOf<S, K>, F>>;
+  listAll<T>(
+    shape: string,
+    params?: ListParams<T>,
+    options?: PaginateOptions,
+  ): AsyncIterable<T> {
+    return iterateRecords(
+      paginateList(
+        (pageParams) => this.listUntyped<T>(shape, pageParams, options),
+        params,
+        options,
+      ),
+    );
+  }
+
+  get<T>(
+    shape: UntypedShapeName<S>,
+    hiveId: string,
+    options?: GetOptions<T>,
+  ): Promise<T>;
+  get<
+    K extends ShapeName<S>,
+    F extends FieldOf<ShapeRecordOf<S, K>> = FieldOf<ShapeRecordOf<S, K>>,
+  >(
+    shape: K,
+    hiveId: string,
+    options?: GetOptions<ShapeRecordOf<S, K>, F>,
+  ): Promise<SelectedRecord<ShapeRecordOf<S, K>, F>>;
+  async get<T>(
+    shape: string,
+    hiveId: string,
+    options?: GetOptions<T>,
+  ): Promise<T> {
+    const { select, expand, ...requestOptions } = options ?? {};
+    const url = defaultBuildGetUrl(shape, hiveId, this.apiBaseUrl, {
+      select,
+      expand,
     });
+    const entity = await this.read<T>(
+      url,
+      { shape, kind: "get" },
+      requestOptions,
+    );
+    return setVersion(
+      this.parseRecord(shape, entity.data, select),
+      entity.version,
+    );
   }
 
+  create<T>(
+    shape: UntypedShapeName<S>,
+    payload: T,
+    options?: RequestOptions,
+  ): Promise<T>;
+  create<K extends ShapeName<S>>(
+    shape: K,
+    payload: ShapeCreatePayload<S, K>,
+    options?: RequestOptions,
+  ): Promise<ShapeRecordOf<S, K>>;
+  async create<T>(
+    shape: string,
+    payload: T,
+    options?: RequestOptions,
+  ): Promise<T> {
+    return this.createUntyped<T>(shape, payload, options);
+  }
+
+  update<T>(
+    shape: UntypedShapeName<S>,
+    hiveId: string,
+    payload: Partial<T> | T,
+    options?: UpdateOptions,
+  ): Promise<T>;
+  update<K extends ShapeName<S>>(
+    shape: K,
+    hiveId: string,
+    payload: ShapeUpdatePayload<S, K>,
+    options?: UpdateOptions,
+  ): Promise<ShapeRecordOf<S, K>>;
   async update<T>(
     shape: string,
     hiveId: string,
     payload: Partial<T> | T,
+    options?: UpdateOptions,
+  ): Promise<T> {
+    return this.updateUntyped<T>(shape, hiveId, payload, options);
+  }
+
+  replace<T>(
+    shape: UntypedShapeName<S>,
+    hiveId: string,
+    payload: T,
+    options?: UpdateOptions,
+  ): Promise<T>;
+  replace<K extends ShapeName<S>>(
+    shape: K,
+    hiveId: string,
+    payload: ShapeCreatePayload<S, K>,
+    options?: UpdateOptions,
+  ): Promise<ShapeRecordOf<S, K>>;
+  async replace<T>(
+    shape: string,
+    hiveId: string,
+    payload: T,
+    options?: UpdateOptions,
+  ): Promise<T> {
+    const url = defaultBuildReplaceUrl(shape, hiveId, this.apiBaseUrl);
+    const body = this.parsePayload(shape, "create", payload);
+    return this.mutate<T>(
+      url,
+      { shape, hiveId },
+      {
+        method: "PUT",
+        body: JSON.stringify(body),
+      },
+      this.withIfMatch(body, options),
+    );
+  }
+
+  async delete(
+    shape: ShapeName<S> | UntypedShapeName<S>,
+    hiveId: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    const url = defaultBuildDeleteUrl(shape, hiveId, this.apiBaseUrl);
+    await this.mutate<void>(
+      url,
+      { shape, hiveId },
+      { method: "DELETE" },
+      options,
+    );
+  }
+
+  upsert<T>(
+    shape: UntypedShapeName<S>,
+    payload: T,
+    options: UpsertOptions<T>,
+  ): Promise<T>;
+  upsert<K extends ShapeName<S>>(
+    shape: K,
+    payload: ShapeCreatePayload<S, K>,
+    options: UpsertOptions<ShapeCreatePayload<S, K>>,
+  ): Promise<ShapeRecordOf<S, K>>;
+  async upsert<T>(
+    shape: string,
+    payload: T,
+    options: UpsertOptions<T>,
+  ): Promise<T> {
+    const { key, ...requestOptions } = options;
+    const keys: string[] = Array.isArray(key) ? key : [key];
+    if (keys.length === 0) {
+      throw new SyncHiveError("upsert() requires at least one key field.");
+    }
+
+    const values = payload as Record<string, unknown>;
+    const [first, ...rest] = keys.map((field) =>
+      where(field).eq(toUpsertKeyValue(field, values[field])),
+    );
+    // The lookup is a plain read: write headers and keys belong to the write,
+    // and a cached list could miss a record created since.
+    const { retry, middleware, signal, timeout } = requestOptions;
+    const existing = await this.listUntyped<{ hiveId?: string }>(
+      shape,
+      { filter: first.and(...rest), top: 2 },
+      { retry, middleware, signal, timeout, cache: "no-store" },
+    );
+
+    if (existing.shapes.length > 1) {
+      throw new SyncHiveError(
+        `upsert() matched more than one ${shape} record by ${keys.join(", ")}.`,
+      );
+    }
+
+    if (existing.shapes.length === 0) {
+      return this.createUntyped<T>(shape, payload, requestOptions);
+    }
+
+    const hiveId = existing.shapes[0].hiveId;
+    if (!hiveId) {
+      throw new SyncHiveError(
+        `upsert() found a ${shape} record without a hiveId.`,
+      );
+    }
+
+    // Send the version we looked at, so a change made since then is a conflict.
+    return this.updateUntyped<T>(shape, hiveId, payload, {
+      ...requestOptions,
+      version: getVersion(existing.shapes[0]),
+    });
+  }
+
+  /** Starts a batch of operations that are sent together with `send()`. */
+  batch(): SyncHiveBatch<S> {
+    return new SyncHiveBatch<S>((operations, options) =>
+      this.runBatch(operations, options),
+    );
+  }
+
+  createMany<T>(
+    shape: UntypedShapeName<S>,
+    payloads: T[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<T>>;
+  createMany<K extends ShapeName<S>>(
+    shape: K,
+    payloads: ShapeCreatePayload<S, K>[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<ShapeRecordOf<S, K>>>;
+  async createMany<T>(
+    shape: string,
+    payloads: T[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<T>> {
+    const results = await this.runBatch(
+      payloads.map((payload) => ({ kind: "create", shape, payload })),
+      options,
+    );
+    return toBulkResult(results as BatchResult<T>[]);
+  }
+
+  updateMany<T>(
+    shape: UntypedShapeName<S>,
+    updates: BulkUpdate<Partial<T> | T>[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<T>>;
+  updateMany<K extends ShapeName<S>>(
+    shape: K,
+    updates: BulkUpdate<ShapeUpdatePayload<S, K>>[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<ShapeRecordOf<S, K>>>;
+  async updateMany<T>(
+    shape: string,
+    updates: BulkUpdate<Partial<T> | T>[],
+    options?: BatchOptions,
+  ): Promise<BulkResult<T>> {
+    const results = await this.runBatch(
+      updates.map(({ hiveId, payload, version }) => ({
+        kind: "update",
+        shape,
+        hiveId,
+        payload,
+        version,
+      })),
+      options,
+    );
+    return toBulkResult(results as BatchResult<T>[]);
+  }
+
+  /**
+   * Uploads `file` into an attachment field of a record. Small files go up as
+   * one multipart request; files over `chunkSize`, and uploads that report
+   * progress, are sent in resumable chunks.
+   */
+  async uploadAttachment(
+    shape: ShapeName<S> | UntypedShapeName<S>,
+    hiveId: string,
+    field: string,
+    file: Blob,
+    options: UploadAttachmentOptions = {},
+  ): Promise<Attachment> {
+    const {
+      fileName,
+      contentType,
+      chunked,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+      uploadId,
+      onProgress,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new SyncHiveError("chunkSize must be a positive integer.");
+    }
+
+    const url = defaultBuildAttachmentUrl(
+      shape,
+      hiveId,
+      field,
+      this.apiBaseUrl,
+    );
+    const description = describeFile(file, { fileName, contentType });
+    const useChunks =
+      file.size > 0 &&
+      (uploadId !== undefined ||
+        (chunked ?? (file.size > chunkSize || onProgress !== undefined)));
+
+    try {
+      if (!useChunks) {
+        const form = createUploadForm(
+          file,
+          description.fileName,
+          description.contentType,
+        );
+        const entity = await this.requestEntity<Attachment>(
+          url,
+          { method: "POST", body: form },
+          requestOptions,
+        );
+        onProgress?.({ loaded: file.size, total: file.size });
+        return entity.data;
+      }
+
+      const session = uploadId
+        ? await this.requestEntity<UploadSession>(
+            `${url}/uploads/${encodeURIComponent(uploadId)}`,
+            {},
+            requestOptions,
+          )
+        : await this.requestEntity<UploadSession>(
+            `${url}/uploads`,
+            { method: "POST", body: JSON.stringify(description) },
+            requestOptions,
+          );
+      return await this.sendChunks(url, file, session.data, {
+        ...requestOptions,
+        chunkSize,
+        onProgress,
+      });
+    } finally {
+      this.invalidateCache(shape, hiveId);
+    }
+  }
+
+  downloadAttachment(
+    shape: ShapeName<S> | UntypedShapeName<S>,
+    hiveId: string,
+    field: string,
+    options: DownloadAttachmentOptions & { as: "stream" },
+  ): Promise<ReadableStream<Uint8Array>>;
+  downloadAttachment(
+    shape: ShapeName<S> | UntypedShapeName<S>,
+    hiveId: string,
+    field: string,
+    options?: DownloadAttachmentOptions,
+  ): Promise<Blob>;
+  async downloadAttachment(
+    shape: ShapeName<S> | UntypedShapeName<S>,
+    hiveId: string,
+    field: string,
+    options: DownloadAttachmentOptions = {},
+  ): Promise<Blob | ReadableStream<Uint8Array>> {
+    const { as = "blob", onProgress, ...requestOptions } = options;
+    const url = defaultBuildAttachmentUrl(
+      shape,
+      hiveId,
+      field,
+      this.apiBaseUrl,
+    );
+    const { signal, dispose } = createRequestSignal(
+      requestOptions.signal,
+      requestOptions.timeout ?? this.timeout,
+    );
+
+    let response: Response;
+    try {
+      const entity = await this.execute<Response>(
+        url,
+        { headers: { Accept: "*/*" }, signal },
+        requestOptions,
+        async (received) => received,
+      );
+      response = entity.data;
+    } catch (error) {
+      dispose();
+      throw error;
+    }
+
+    // The timeout and signal keep covering the body until it has been read.
+    const body = trackBody(response.body ?? new Blob([]).stream(), {
+      total: readContentLength(response.headers),
+      signal,
+      onProgress,
+      onDone: dispose,
+    });
+    if (as === "stream") return body;
+    return readBlob(body, response.headers.get("Content-Type") ?? "");
+  }
+
+  subscribe<T>(
+    shape: UntypedShapeName<S>,
+    options: SubscribeOptions<T>,
+    handler: ShapeChangeHandler<T>,
+  ): SubscriptionUnsubscribe;
+  subscribe<K extends ShapeName<S>>(
+    shape: K,
+    options: SubscribeOptions<ShapeRecordOf<S, K>>,
+    handler: ShapeChangeHandler<ShapeRecordOf<S, K>>,
+  ): SubscriptionUnsubscribe;
+  subscribe<T>(
+    shape: string,
+    options: SubscribeOptions<T>,
+    handler: ShapeChangeHandler<T>,
+  ): SubscriptionUnsubscribe {
+    const url = defaultBuildSubscribeUrl(shape, options, this.apiBaseUrl);
+    const middleware = [...this.middleware, ...(options.middleware ?? [])];
+    const subscription = new ShapeSubscription<T>({
+      shape,
+      lastEventId: options.lastEventId,
+      onError: options.onError,
+      connect: (lastEventId, signal) => {
+        const headers = new Headers(options.headers ?? {});
+        headers.set("Accept", "text/event-stream");
+        if (lastEventId) headers.set("Last-Event-ID", lastEventId);
+        return this.sendAuthenticated(
+          url,
+          "GET",
+          { method: "GET", headers, signal, cache: "no-store" },
+          middleware,
+        );
+      },
+      onChange: (event) => {
+        // Someone else changed the data; cached reads of it are stale now.
+        this.invalidateCache(shape, event.hiveId);
+        handler(event);
+      },
+    });
+
+    // Streams keep the token they were opened with; reopen after a renewal.
+    const reconnect = (): void => subscription.reconnect();
+    // A token provider that recovers reports "authenticated" without a renewal.
+    const resume: AuthEventListener = (trigger) => {
+      if (trigger === "authenticated") subscription.resume();
+    };
+    const events = this.session.userManager?.events;
+    events?.addUserLoaded(reconnect);
+    this.session.renewalListeners.add(reconnect);
+    this.session.authEvents.add(resume);
+    subscription.start();
+
+    return () => {
+      subscription.close();
+      events?.removeUserLoaded(reconnect);
+      this.session.renewalListeners.delete(reconnect);
+      this.session.authEvents.delete(resume);
+    };
+  }
+
+  invalidate(shape: ShapeName<S> | UntypedShapeName<S>, hiveId?: string): void {
+    this.invalidateCache(shape, hiveId);
+  }
+
+  async flushOfflineQueue(): Promise<void> {
+    await this.offlineQueue?.replay();
+  }
+
+  async clearOfflineQueue(): Promise<void> {
+    await this.offlineQueue?.clear();
+  }
+
+  getOfflineQueue(): OfflineMutation[] {
+    return this.offlineQueue?.getItems() ?? [];
+  }
+
+  onOfflineQueueChange(listener: OfflineQueueListener): () => void {
+    return this.offlineQueue?.subscribe(listener) ?? (() => undefined);
+  }
+
+  resolveHiveId(hiveId: string): string {
+    return this.offlineQueue?.resolveHiveId(hiveId) ?? hiveId;
+  }
+
+  private createUntyped<T>(
+    shape: string,
+    payload: T,
+    options: RequestOptions | undefined,
+  ): Promise<T> {
+    payload = this.parsePayload(shape, "create", payload);
+    if (!this.offlineQueue) return this.sendCreate<T>(shape, payload, options);
+
+    return this.offlineQueue.run<T>(
+      { kind: "create", shape, payload },
+      (mutation) =>
+        this.sendCreate<T>(shape, mutation.payload as T, {
+          ...options,
+          idempotencyKey: mutation.idempotencyKey,
+        }),
+    );
+  }
+
+  private updateUntyped<T>(
+    shape: string,
+    hiveId: string,
+    payload: Partial<T> | T,
+    options: UpdateOptions | undefined,
+  ): Promise<T> {
+    payload = this.parsePayload(shape, "update", payload);
+    if (!this.offlineQueue) {
+      return this.sendUpdate<T>(shape, hiveId, payload, options);
+    }
+
+    const version = resolveVersion(payload, options);
+    return this.offlineQueue.run<T>(
+      { kind: "update", shape, hiveId, payload, version },
+      (mutation) =>
+        this.sendUpdate<T>(
+          shape,
+          mutation.hiveId ?? hiveId,
+          mutation.payload as Partial<T>,
+          {
+            ...options,
+            version: mutation.version ?? false,
+            idempotencyKey: mutation.idempotencyKey,
+          },
+        ),
+    );
+  }
+
+  private sendCreate<T>(
+    shape: string,
+    payload: T,
+    options: RequestOptions | undefined,
+  ): Promise<T> {
+    const url = defaultBuildCreateUrl(shape, this.apiBaseUrl);
+    return this.mutate<T>(
+      url,
+      { shape },
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+      },
+      options,
+    );
+  }
+
+  private sendUpdate<T>(
+    shape: string,
+    hiveId: string,
+    payload: Partial<T> | T,
+    options: UpdateOptions | undefined,
   ): Promise<T> {
     const url = defaultBuildUpdateUrl(shape, hiveId, this.apiBaseUrl);
-    return this.request<T>(url, {
+    return this.mutate<T>(
+      url,
+      { shape, hiveId },
+      {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+      },
+      this.withIfMatch(payload, options),
+    );
+  }
+
+  private replayOfflineMutation(mutation: OfflineMutation): Promise<unknown> {
+    const options = { idempotencyKey: mutation.idempotencyKey };
+    if (mutation.kind === "create") {
+      return this.sendCreate(mutation.shape, mutation.payload, options);
+    }
+    return this.sendUpdate(
+      mutation.shape,
+      mutation.hiveId ?? "",
+      mutation.payload,
+      {
+        ...options,
+        version: mutation.version ?? false,
+      },
+    );
+  }
+
+  private async listUntyped<T>(
+    shape: string,
+    params: ListParams<T>,
+    options: RequestOptions | undefined,
+  ): Promise<ListResult<T>> {
+    const url = defaultBuildListUrl(shape, params, this.apiBaseUrl);
+    const entity = await this.read<unknown>(
+      url,
+      { shape, kind: "list" },
+      options,
+    );
+    return attachListVersions(
+      parseListResult<T>(
+        this.getRecordValidator(shape, params.select),
+        entity.data,
+        shape,
+      ),
+    );
+  }
+
+  private async read<T>(
+    url: string,
+    scope: { shape: string; kind: "list" | "get" },
+    options: RequestOptions | undefined,
+  ): Promise<Entity<T>> {
+    const { signal, cache: mode, ...sharedOptions } = options ?? {};
+    // Per-call headers and middleware change the request itself, so those
+    // calls, like "no-store" ones, go to the network on their own.
+    if (
+      !this.cache ||
+      mode === "no-store" ||
+      hasHeaders(sharedOptions.headers) ||
+      sharedOptions.middleware?.length
+    ) {
+      return this.requestEntity<T>(url, {}, options);
+    }
+
+    // The shared request must not be cancelled by whichever caller started it.
+    const requestKey = JSON.stringify([
+      url,
+      sharedOptions.timeout ?? null,
+      sharedOptions.retry ?? null,
+      sharedOptions.idempotencyKey ?? null,
+    ]);
+    return abortable(
+      this.cache.read<Entity<T>>(
+        url,
+        scope,
+        () => this.requestEntity<T>(url, {}, sharedOptions),
+        mode,
+        requestKey,
+      ),
+      signal,
+    );
+  }
+
+  private async mutate<T>(
+    url: string,
+    scope: { shape: string; hiveId?: string },
+    init: RequestInit,
+    options: RequestOptions | undefined,
+  ): Promise<T> {
+    try {
+      const entity = await this.requestEntity<T>(url, init, options);
+      // DELETE has no record to check.
+      const data =
+        init.method === "DELETE"
+          ? entity.data
+          : this.parseRecord(scope.shape, entity.data);
+      return setVersion(data, entity.version);
+    } catch (error) {
+      if (scope.hiveId && isConflictError(error)) {
+        throw await this.withServerCopy(
+          error,
+          scope.shape,
+          scope.hiveId,
+          options,
+        );
+      }
+      throw error;
+    } finally {
+      this.invalidateCache(scope.shape, scope.hiveId);
+    }
+  }
+
+  private async withServerCopy(
+    error: SyncHiveConflictError,
+    shape: string,
+    hiveId: string,
+    options: RequestOptions | undefined,
+  ): Promise<SyncHiveConflictError> {
+    try {
+      const url = defaultBuildGetUrl(shape, hiveId, this.apiBaseUrl);
+      const current = await this.requestEntity<unknown>(
+        url,
+        {},
+        { signal: options?.signal, timeout: options?.timeout },
+      );
+      return error.withCurrent(
+        setVersion(current.data, current.version),
+        current.version ?? getVersion(current.data),
+      );
+    } catch {
+      // The conflict is the useful error; a failed refetch just leaves current unset.
+      return error;
+    }
+  }
+
+  private async runBatch(
+    operations: BatchOperation[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult[]> {
+    const {
+      chunkSize = DEFAULT_BATCH_SIZE,
+      stopOnError = false,
+      onProgress,
+      ...requestOptions
+    } = options;
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new SyncHiveError("chunkSize must be a positive integer.");
+    }
+
+    const results: BatchResult[] = [];
+    let failed = 0;
+    // After a request fails as a whole (network, server or auth error, or an
+    // abort) the later ones would fail the same way, so the remaining chunks
+    // are not sent. Results of the chunks already sent are kept.
+    let requestError: unknown;
+    let requestFailed = false;
+    for (const chunk of chunkOperations(operations, chunkSize)) {
+      let chunkResults: BatchResult[];
+      if (requestFailed || (stopOnError && failed > 0)) {
+        chunkResults = chunk.map((): BatchResult => ({
+          status: "rejected",
+          reason: requestFailed
+            ? toUnsentReason(requestError)
+            : new SyncHiveError(
+                "Not sent because an earlier operation in the batch failed.",
+              ),
+        }));
+      } else {
+        const sent = await this.sendBatch(chunk, requestOptions);
+        chunkResults = sent.results;
+        if ("requestError" in sent) {
+          requestFailed = true;
+          requestError = sent.requestError;
+        }
+      }
+      results.push(...chunkResults);
+      failed += chunkResults.filter(
+        (result) => result.status === "rejected",
+      ).length;
+      onProgress?.({
+        completed: results.length,
+        total: operations.length,
+        failed,
+      });
+    }
+    return results;
+  }
+
+  private async sendBatch(
+    operations: BatchOperation[],
+    options: RequestOptions,
+  ): Promise<{ results: BatchResult[]; requestError?: unknown }> {
+    // A payload that fails validation only fails its own operation.
+    const prepared = operations.map((operation, index) => {
+      try {
+        return { request: this.toBatchRequest(operation, String(index)) };
+      } catch (error) {
+        return { error };
+      }
+    });
+    const requests = prepared.flatMap(({ request }) =>
+      request ? [request] : [],
+    );
+
+    let responses: BatchResponse[] = [];
+    if (requests.length > 0) {
+      try {
+        const entity = await this.requestEntity<{
+          responses?: BatchResponse[];
+        }>(
+          defaultBuildBatchUrl(this.apiBaseUrl),
+          { method: "POST", body: JSON.stringify({ requests }) },
+          options,
+        );
+        responses = entity.data?.responses ?? [];
+      } catch (error) {
+        // The whole request failed, so every operation in it did.
+        return {
+          results: prepared.map((item): BatchResult => ({
+            status: "rejected",
+            reason: "error" in item ? item.error : error,
+          })),
+          requestError: error,
+        };
+      } finally {
+        for (const operation of operations) {
+          if (operation.kind !== "get") {
+            this.invalidateCache(
+              operation.shape,
+              operation.kind === "update" ? operation.hiveId : undefined,
+            );
+          }
+        }
+      }
+    }
+
+    const byId = new Map(responses.map((response) => [response.id, response]));
+    const results = await Promise.all(
+      operations.map(async (operation, index): Promise<BatchResult> => {
+        const item = prepared[index];
+        if (!item.request) return { status: "rejected", reason: item.error };
+
+        const response = byId.get(item.request.id);
+        if (!response) {
+          return {
+            status: "rejected",
+            reason: new SyncHiveError(
+              `The batch response has no result for operation ${index}.`,
+            ),
+          };
+        }
+        return this.toBatchResult(operation, item.request, response);
+      }),
+    );
+    return { results };
+  }
+
+  private toBatchRequest(operation: BatchOperation, id: string): BatchRequest {
+    const toRelative = (url: string): string =>
+      url.slice(normalizeBaseUrl(this.apiBaseUrl).length + 1);
+
+    if (operation.kind === "get") {
+      const url = defaultBuildGetUrl(
+        operation.shape,
+        operation.hiveId,
+        this.apiBaseUrl,
+        { select: operation.select, expand: operation.expand },
+      );
+      return { id, method: "GET", url: toRelative(url) };
+    }
+
+    if (operation.kind === "create") {
+      const url = defaultBuildCreateUrl(operation.shape, this.apiBaseUrl);
+      const body = this.parsePayload(
+        operation.shape,
+        "create",
+        operation.payload,
+      );
+      return { id, method: "POST", url: toRelative(url), body };
+    }
+
+    const url = defaultBuildUpdateUrl(
+      operation.shape,
+      operation.hiveId,
+      this.apiBaseUrl,
+    );
+    const body = this.parsePayload(
+      operation.shape,
+      "update",
+      operation.payload,
+    );
+    const version = resolveVersion(body, { version: operation.version });
+    return {
+      id,
       method: "PATCH",
-      body: JSON.stringify(payload),
+      url: toRelative(url),
+      headers: version ? { "If-Match": version } : undefined,
+      body,
+    };
+  }
+
+  private async toBatchResult(
+    operation: BatchOperation,
+    request: BatchRequest,
+    response: BatchResponse,
+  ): Promise<BatchResult> {
+    const headers = new Headers(response.headers ?? {});
+    if (response.status >= 400) {
+      const text =
+        typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body ?? null);
+      if (!headers.has("Content-Type") && typeof response.body !== "string") {
+        headers.set("Content-Type", "application/json");
+      }
+      const error = await createHttpError(
+        new Response(text, { status: response.status, headers }),
+        {
+          url: `${normalizeBaseUrl(this.apiBaseUrl)}/${request.url}`,
+          method: request.method,
+        },
+      );
+      return { status: "rejected", reason: error };
+    }
+
+    try {
+      const value = this.parseRecord(
+        operation.shape,
+        response.body,
+        operation.kind === "get" ? operation.select : undefined,
+      );
+      return {
+        status: "fulfilled",
+        value: setVersion(value, headers.get("ETag")),
+      };
+    } catch (error) {
+      return { status: "rejected", reason: error };
+    }
+  }
+
+  private sendChunks(
+    url: string,
+    file: Blob,
+    session: UploadSession,
+    options: RequestOptions & {
+      chunkSize: number;
+      onProgress?: UploadAttachmentOptions["onProgress"];
+    },
+  ): Promise<Attachment> {
+    // PUT of a byte range is safe to replay, so chunks never need a key.
+    const { chunkSize, onProgress, idempotencyKey, ...requestOptions } =
+      options;
+    const sessionUrl = `${url}/uploads/${encodeURIComponent(session.uploadId)}`;
+    return uploadChunks(
+      file,
+      {
+        uploadId: session.uploadId,
+        offset: session.received ?? 0,
+        chunkSize,
+        signal: requestOptions.signal,
+        onProgress,
+      },
+      async (chunk, contentRange) => {
+        const entity = await this.requestEntity<
+          Partial<Attachment> & { received?: number }
+        >(
+          sessionUrl,
+          {
+            method: "PUT",
+            body: chunk,
+            headers: {
+              "Content-Type": "application/octet-stream",
+              "Content-Range": contentRange,
+            },
+          },
+          requestOptions,
+        );
+        return entity.data ?? {};
+      },
+    );
+  }
+
+  private withIfMatch(
+    payload: unknown,
+    options: UpdateOptions | undefined,
+  ): RequestOptions | undefined {
+    const version = resolveVersion(payload, options);
+    if (!version) return options;
+
+    const headers = new Headers(options?.headers ?? {});
+    headers.set("If-Match", version);
+    return { ...options, headers };
+  }
+
+  private parseRecord<T>(
+    shape: string,
+    value: T,
+    select?: readonly string[],
+  ): T {
+    return parseWith<T>(this.getRecordValidator(shape, select), value, {
+      shape,
+      source: "response",
+    });
+  }
+
+  private getRecordValidator(
+    shape: string,
+    select: readonly string[] | undefined,
+  ): ShapeValidator | undefined {
+    // A projection is not a full record, so the record validator does not apply.
+    if (select?.length) return undefined;
+    return getShapeValidator(this.validators, shape, "record");
+  }
+
+  private parsePayload<T>(
+    shape: string,
+    role: "create" | "update",
+    payload: T,
+  ): T {
+    return parseWith<T>(
+      getShapeValidator(this.validators, shape, role),
+      payload,
+      { shape, source: "payload" },
+    );
+  }
+
+  private invalidateCache(shape: string, hiveId?: string): void {
+    this.cache?.invalidate(
+      shape,
+      hiveId ? defaultBuildGetUrl(shape, hiveId, this.apiBaseUrl) : undefined,
+    );
+  }
+
+  private async requestEntity<T>(
+    url: string,
+    init: RequestInit = {},
+    options: RequestOptions = {},
+  ): Promise<Entity<T>> {
+    const { signal, dispose } = createRequestSignal(
+      options.signal,
+      options.timeout ?? this.timeout,
+    );
+    try {
+      return await this.execute<T>(url, { ...init, signal }, options);
+    } finally {
+      dispose();
+    }
+  }
+
+  private async execute<T>(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions,
+    readBody: (response: Response) => Promise<T> = readJson,
+  ): Promise<Entity<T>> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const signal = init.signal ?? undefined;
+    const policy = resolveRetryPolicy(this.retry, options.retry);
+    const headers = new Headers(init.headers ?? {});
+    new Headers(options.headers ?? {}).forEach((value, name) => {
+      headers.set(name, value);
     });
+    if (options.idempotencyKey) {
+      headers.set(IDEMPOTENCY_KEY_HEADER, options.idempotencyKey);
+    }
+    const canRetry =
+      policy.maxAttempts > 1 &&
+      (isIdempotentMethod(method) ||
+        this.attachIdempotencyKey(headers, policy));
+    const requestInit: RequestInit = { ...init, method, headers };
+    const middleware = [...this.middleware, ...(options.middleware ?? [])];
+
+    for (let attempt = 1; ; attempt++) {
+      const hasAttemptsLeft = canRetry && attempt < policy.maxAttempts;
+      let response: Response;
+      try {
+        response = await this.sendAuthenticated(
+          url,
+          method,
+          requestInit,
+          middleware,
+        );
+      } catch (error) {
+        if (
+          hasAttemptsLeft &&
+          policy.retryNetworkErrors &&
+          error instanceof SyncHiveNetworkError
+        ) {
+          await sleep(getRetryDelay(policy, attempt) ?? 0, signal);
+          continue;
+        }
+        throw error;
+      }
+
+      if (hasAttemptsLeft && isRetryableStatus(policy, response.status)) {
+        const delay = getRetryDelay(policy, attempt, response.headers);
+        if (delay !== undefined) {
+          void response.body?.cancel().catch(() => undefined);
+          await sleep(delay, signal);
+          continue;
+        }
+      }
+
+      try {
+        if (!response.ok) {
+          throw await createHttpError(response, { url, method });
+        }
+
+        const version = response.headers.get("ETag");
+        return { data: await readBody(response), version };
+      } catch (error) {
+        // Aborting mid-body surfaces as a DOMException from the stream.
+        if (signal?.aborted) throw toAbortError(signal);
+        throw error;
+      }
+    }
+  }
+
+  private attachIdempotencyKey(headers: Headers, policy: RetryPolicy): boolean {
+    // Mutations are only replayed when the server can dedupe them by key.
+    if (headers.has(IDEMPOTENCY_KEY_HEADER)) return true;
+    if (!policy.idempotencyKeys) return false;
+
+    headers.set(IDEMPOTENCY_KEY_HEADER, createIdempotencyKey());
+    return true;
   }
 
-  private async request<T>(url: string, init: RequestInit = {}): Promise<T> {
-    const user = await this.ensureUser();
-    const token = user.access_token;
+  private async sendAuthenticated(
+    url: string,
+    method: string,
+    init: RequestInit,
+    middleware: Middleware[],
+  ): Promise<Response> {
+    const signal = init.signal ?? undefined;
+    const token = await this.getAccessToken(signal);
+    const response = await this.send(url, method, init, token, middleware);
+    if (response.status !== 401) return response;
+
+    // The token was rejected (revoked, clock skew); renew once and replay.
+    const renewed = await this.renewAccessToken(signal);
+    const replayed = renewed
+      ? await this.send(url, method, init, renewed, middleware)
+      : response;
+    if (replayed.status !== 401) return replayed;
+
+    const httpError = await createHttpError(replayed, { url, method });
+    await this.clearRejectedUser();
+    throw new SyncHiveNotAuthenticatedError(
+      this.session.tokenProvider
+        ? "Request was rejected as unauthenticated (401). Check the token returned by tokenProvider."
+        : "Request was rejected as unauthenticated (401). Call signInRedirect() to sign in again.",
+      httpError,
+    );
+  }
+
+  private async getAccessToken(signal?: AbortSignal): Promise<string> {
+    if (!this.session.tokenProvider) {
+      const user = await this.ensureUser(signal);
+      return user.access_token;
+    }
+
+    const token = await this.requestProviderToken(false, signal);
+    if (token) return token;
+    throw new SyncHiveNotAuthenticatedError(
+      "tokenProvider did not return an access token.",
+    );
+  }
+
+  private async renewAccessToken(signal?: AbortSignal): Promise<string | null> {
+    if (this.session.tokenProvider) {
+      return this.requestProviderToken(true, signal);
+    }
+
+    const user = await abortable(this.renewUser(), signal);
+    return user?.access_token ?? null;
+  }
+
+  private async requestProviderToken(
+    forceRefresh: boolean,
+    signal: AbortSignal | undefined,
+  ): Promise<string | null> {
+    const provider = this.session.tokenProvider;
+    if (!provider) return null;
+
+    let token: AccessTokenResult;
+    try {
+      token = await abortable(
+        Promise.resolve().then(() =>
+          provider.getAccessToken({
+            forceRefresh,
+            signal,
+            authority: this.session.tokenAuthority,
+            clientId: this.session.tokenClientId,
+            fetch: this.fetchFn,
+          }),
+        ),
+        signal,
+      );
+    } catch (error) {
+      if (!isAbortError(error)) this.emitAuthEvent("renewFailed", { error });
+      if (isNotAuthenticatedError(error)) this.setProviderTokenState(false);
+      throw error;
+    }
+
+    const value = typeof token === "string" ? token.trim() : "";
+    const isRenewal =
+      !!value &&
+      this.session.providerToken !== undefined &&
+      value !== this.session.providerToken;
+    if (value) this.session.providerToken = value;
+    this.setProviderTokenState(!!value);
+    if (isRenewal) {
+      this.emitAuthEvent("tokenRefreshed");
+      for (const listener of this.session.renewalListeners) listener();
+    }
+    return value || null;
+  }
+
+  private async send(
+    url: string,
+    method: string,
+    init: RequestInit,
+    token: string,
+    middleware: Middleware[],
+  ): Promise<Response> {
     const headers = new Headers(init.headers ?? {});
     headers.set("Authorization", `Bearer ${token}`);
-    headers.set("Accept", "application/json");
+    if (!headers.has("Accept")) headers.set("Accept", "application/json");
 
-    if (init.body && !headers.has("Content-Type")) {
+    // Form data and binary bodies carry their own content type.
+    if (typeof init.body === "string" && !headers.has("Content-Type")) {
       headers.set("Content-Type", "application/json");
     }
 
-    const response = await this.fetchFn(url, {
-      ...init,
+    const signal = init.signal ?? undefined;
+    const request: MiddlewareRequest = {
+      url,
+      method,
       headers,
+      body: init.body,
+      signal,
+    };
+
+    return runMiddleware(middleware, request, async (final) => {
+      throwIfAborted(signal);
+      try {
+        return await this.fetchFn(final.url, {
+          ...init,
+          method: final.method,
+          headers: final.headers,
+          body: final.body,
+        });
+      } catch (error) {
+        if (signal?.aborted) throw toAbortError(signal);
+        throw new SyncHiveNetworkError({
+          url: final.url,
+          method: final.method,
+          cause: error,
+        });
+      }
     });
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Request failed (${response.status}): ${text}`);
-    }
+  private async ensureUser(signal?: AbortSignal): Promise<User> {
+    const userManager = this.requireUserManager("Browser sign-in");
+    const user = await abortable(userManager.getUser(), signal);
+    if (this.isAuthenticatedUser(user)) return user;
 
-    if (response.status === 204) {
-      return undefined as T;
+    const renewed = await abortable(this.renewUser(), signal);
+    if (renewed) return renewed;
+
+    throw new SyncHiveNotAuthenticatedError();
+  }
+
+  private renewUser(): Promise<User | null> {
+    // Share one silent renew across concurrent callers.
+    if (!this.session.pendingRenewal) {
+      this.session.pendingRenewal = this.requireUserManager("Silent renew")
+        .signinSilent()
+        .then((user) => (this.isAuthenticatedUser(user) ? user : null))
+        .catch((error: unknown) => {
+          // Silent renew can fail for expected reasons (expired OP session, blocked cookies).
+          this.emitAuthEvent("renewFailed", { error });
+          return null;
+        })
+        .finally(() => {
+          this.session.pendingRenewal = null;
+        });
     }
 
-    return response.json() as Promise<T>;
+    return this.session.pendingRenewal;
   }
 
-  private async ensureUser(): Promise<User> {
-    const user = await this.userManager.getUser();
-    if (this.isAuthenticatedUser(user)) return user;
+  private async clearRejectedUser(): Promise<void> {
+    if (this.session.tokenProvider) {
+      this.session.tokenProvider.clear?.();
+      this.setProviderTokenState(false);
+      return;
+    }
 
+    // Removing the user raises userUnloaded, which onAuthStateChange listeners
+    // observe as an "unauthenticated" transition.
     try {
-      const renewed = await this.userManager.signinSilent();
-      if (this.isAuthenticatedUser(renewed)) return renewed;
+      await this.requireUserManager("Browser sign-in").removeUser();
     } catch {
-      // Silent renew can fail for expected reasons (expired OP session, blocked cookies).
+      // Storage failures should not mask the authentication error.
     }
+  }
 
-    throw new Error("User is not authenticated. Call signInRedirect() first.");
+  private emitAuthEvent(
+    trigger: AuthStateChangeTrigger,
+    details: AuthStateChangeDetails = {},
+  ): void {
+    for (const listener of this.session.authEvents) {
+      listener(trigger, details);
+    }
+  }
+
+  private setProviderTokenState(isAuthenticated: boolean): void {
+    if (this.session.hasProviderToken === isAuthenticated) return;
+    this.session.hasProviderToken = isAuthenticated;
+    this.emitAuthEvent(isAuthenticated ? "authenticated" : "unauthenticated");
+  }
+
+  private requireUserManager(feature: string): UserManager {
+    if (!this.session.userManager) {
+      throw new Error(`${feature} is not available when tokenProvider is set.`);
+    }
+    return this.session.userManager;
+  }
+
+  private clearCacheOnSignOut(): void {
+    // Cached data belongs to the signed-in user; drop it when they leave.
+    const clear = (): void => this.cache?.clear();
+    const clearOnTrigger: AuthEventListener = (trigger) => {
+      if (trigger === "unauthenticated") clear();
+    };
+
+    const events = this.session.userManager?.events;
+    events?.addUserUnloaded(clear);
+    events?.addUserSignedOut(clear);
+    this.session.authEvents.add(clearOnTrigger);
+    this.disposers.push(() => {
+      events?.removeUserUnloaded(clear);
+      events?.removeUserSignedOut(clear);
+      this.session.authEvents.delete(clearOnTrigger);
+    });
+  }
+
+  private async getOfflineQueueOwner(): Promise<string | undefined> {
+    // Token providers have no user, so their queue has no owner to check.
+    const user = await this.session.userManager?.getUser();
+    return user?.profile.sub;
+  }
+
+  private replayOfflineQueue(): void {
+    // Replay in the background; failures stay queued and surface as events.
+    void this.offlineQueue?.replay().catch(() => undefined);
   }
 
   private toAuthState(user: User | null): AuthState {
@@ -346,8 +2088,30 @@ export class SyncHiveClient {
     };
   }
 
-  private toAuthStateChangeTrigger(user: User | null): AuthStateChangeTrigger {
-    return this.isAuthenticatedUser(user) ? "authenticated" : "unauthenticated";
+  private async getAuthState(): Promise<AuthState> {
+    if (this.session.userManager) {
+      return this.toAuthState(await this.session.userManager.getUser());
+    }
+    // Ask the provider once so the first state reflects whether it has a token.
+    this.session.providerCheck ??= this.requestProviderToken(
+      false,
+      undefined,
+    ).then(
+      () => undefined,
+      () => undefined,
+    );
+    await this.session.providerCheck;
+    return { user: null, isAuthenticated: this.session.hasProviderToken };
+  }
+
+  private getAuthStateKey(state: AuthState): string {
+    // Token providers have no user object, so their token stands in for it.
+    const token = state.user?.access_token ?? this.session.providerToken ?? "";
+    return `${state.isAuthenticated}:${state.user?.profile.sub ?? ""}:${token}`;
+  }
+
+  private toAuthStateChangeTrigger(state: AuthState): AuthStateChangeTrigger {
+    return state.isAuthenticated ? "authenticated" : "unauthenticated";
   }
 
   private isAuthenticatedUser(user: User | null): user is User {
@@ -435,17 +2199,23 @@ export class SyncHiveClient {
     return knownStateErrors.some((text) => message.includes(text));
   }
 
-  private async signInWithPopupOrRedirectFallback(): Promise<void> {
+  private async signInWithPopupOrRedirectFallback(
+    args: ExtraSigninRequestArgs,
+  ): Promise<AuthCallbackResult | null> {
     try {
-      await this.userManager.signinPopup();
-      return;
+      const user =
+        await this.requireUserManager("signInRedirect()").signinPopup(args);
+      const result = this.toSignInResult(user);
+      if (result.returnTo) this.navigateTo(result.returnTo);
+      return result;
     } catch (error) {
       if (!this.shouldFallbackFromPopup(error)) {
         throw error;
       }
     }
 
-    await this.signInWithRedirect();
+    await this.signInWithRedirect(args);
+    return null;
   }
 
   private shouldFallbackFromPopup(error: unknown): boolean {
@@ -458,10 +2228,13 @@ export class SyncHiveClient {
     );
   }
 
-  private async signInWithRedirect(): Promise<void> {
+  private async signInWithRedirect(
+    args: ExtraSigninRequestArgs,
+  ): Promise<void> {
     const isIframe = typeof window !== "undefined" && this.isInIframe();
     try {
-      await this.userManager.signinRedirect({
+      await this.requireUserManager("signInRedirect()").signinRedirect({
+        ...args,
         redirectTarget: isIframe ? "top" : "self",
         redirectMethod: "assign",
       });
@@ -475,6 +2248,47 @@ export class SyncHiveClient {
     }
   }
 
+  private toSignInArgs(options?: SignInOptions): ExtraSigninRequestArgs {
+    const returnTo =
+      typeof window === "undefined"
+        ? undefined
+        : toSameOriginPath(options?.returnTo ?? window.location.href);
+    if (options?.returnTo !== undefined && returnTo === undefined) {
+      throw new Error("returnTo must be on the same origin as the app.");
+    }
+
+    return {
+      state: returnTo ? { returnTo } : undefined,
+      login_hint: options?.loginHint,
+      prompt: options?.prompt,
+      extraQueryParams: options?.extraQueryParams,
+    };
+  }
+
+  private toSignInResult(
+    user: User,
+  ): Extract<AuthCallbackResult, { type: "signIn" }> {
+    const state = user.state as { returnTo?: unknown } | undefined;
+    // The state round-trips through storage, so check it again before use.
+    const returnTo =
+      typeof state?.returnTo === "string"
+        ? toSameOriginPath(state.returnTo)
+        : undefined;
+    return { type: "signIn", user, returnTo };
+  }
+
+  private navigateTo(returnTo: string): void {
+    const navigate = this.session.navigate;
+    if (!navigate || typeof window === "undefined") return;
+    if (returnTo === toSameOriginPath(window.location.href)) return;
+
+    if (typeof navigate === "function") {
+      navigate(returnTo);
+    } else {
+      window.location.assign(returnTo);
+    }
+  }
+
   private clearAuthParamsFromUrl(): void {
     if (typeof window === "undefined") return;
     if (!window.history?.replaceState) return;
@@ -520,22 +2334,44 @@ export class SyncHiveClient {
     window.history.replaceState({}, document.title, url.toString());
   }
 
-  private async handleAuthCallback(isSignOutCallback: boolean): Promise<void> {
+  private async handleAuthCallback(
+    isSignOutCallback: boolean,
+  ): Promise<AuthCallbackResult | null> {
+    const userManager = this.requireUserManager("Sign-in callbacks");
     if (isSignOutCallback) {
-      await this.userManager.signoutRedirectCallback();
-      await this.userManager.removeUser();
-      return;
+      await userManager.signoutRedirectCallback();
+      this.session.signingOut = true;
+      try {
+        await userManager.removeUser();
+      } finally {
+        this.session.signingOut = false;
+      }
+      return { type: "signOut" };
     }
 
     if (this.isPopupContext()) {
-      await this.userManager.signinPopupCallback();
-      return;
+      // The opener's signinPopup() receives the user; this window closes.
+      await userManager.signinPopupCallback();
+      return null;
     }
 
-    await this.userManager.signinCallback();
+    const user = await userManager.signinCallback();
+    return user ? this.toSignInResult(user) : null;
   }
 }
 
+// Origin-relative path of `value`, or undefined when it points at another origin.
+const toSameOriginPath = (value: string): string | undefined => {
+  let url: URL;
+  try {
+    url = new URL(value, window.location.href);
+  } catch {
+    return undefined;
+  }
+  if (url.origin !== window.location.origin) return undefined;
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
 type DecodedPublishableKey = {
   encryptedKey: string;
   environment: string;
@@ -568,6 +2404,10 @@ const getPublishableKeyAuthBaseUrl = (parsed: ParsedPublishableKey): string => {
     : getApisHost(parsed.decoded.environment);
 };
 
+const getPublishableKeyAuthority = (parsed: ParsedPublishableKey): string => {
+  return `${getPublishableKeyAuthBaseUrl(parsed)}/v1/auth/`;
+};
+
 const decodePublishableKey = (publishableKey: string): ParsedPublishableKey => {
   if (publishableKey.startsWith(PUBLISHABLE_V1_PREFIX)) {
     return decodeV1PublishableKey(publishableKey);
@@ -665,6 +2505,60 @@ const getRegionalApisHost = (environment: string, region: string): string => {
     : `https://${region}-apis.${environment}.synchive.com`;
 };
 
+const createAuthSession = (input: {
+  publishableKey?: string;
+  parsed?: ParsedPublishableKey;
+  options: SynchiveClientOptions;
+  storage: Storage;
+}): AuthSession => {
+  const session: AuthSession = {
+    authEvents: new Set(),
+    signingOut: false,
+    hasProviderToken: false,
+    renewalListeners: new Set(),
+    pendingRenewal: null,
+  };
+
+  if (input.options.tokenProvider) {
+    // Token providers replace the browser sign-in flow; no UserManager is created.
+    session.tokenProvider = resolveTokenProvider(input.options.tokenProvider);
+    session.tokenAuthority = input.parsed
+      ? getPublishableKeyAuthority(input.parsed)
+      : input.options.auth?.authority;
+    session.tokenClientId =
+      input.publishableKey || input.options.auth?.client_id;
+    return session;
+  }
+
+  const settings = resolveAuthSettings(input);
+  session.userManager = new UserManager(settings);
+  // The channel carries tokens, so it is only on by default where other tabs
+  // cannot see this tab's user otherwise: a user kept in memory.
+  const authStorage = normalizeAuthStorage(input.options.authStorage);
+  if (authStorage.syncTabs ?? authStorage.user === "memory") {
+    session.stopTabSync = syncAuthAcrossTabs(
+      session.userManager,
+      `synchive.auth:${settings.authority}:${settings.client_id}`,
+    );
+  }
+  return session;
+};
+
+const getAuthStores = (input: {
+  options: SynchiveClientOptions;
+  storage: Storage;
+}): Pick<UserManagerSettings, "userStore" | "stateStore"> => {
+  const authStorage = normalizeAuthStorage(input.options.authStorage);
+  return {
+    // Typed as WebStorageStateStore upstream, but only the StateStore methods are used.
+    userStore: resolveAuthStore(
+      authStorage.user,
+      input.storage,
+    ) as WebStorageStateStore,
+    stateStore: resolveAuthStore(authStorage.state, input.storage),
+  };
+};
+
 const resolveAuthSettings = (input: {
   publishableKey?: string;
   parsed?: ParsedPublishableKey;
@@ -674,8 +2568,7 @@ const resolveAuthSettings = (input: {
   if (input.options.auth) {
     return {
       ...input.options.auth,
-      userStore: new WebStorageStateStore({ store: input.storage }),
-      stateStore: new WebStorageStateStore({ store: input.storage }),
+      ...getAuthStores(input),
     };
   }
 
@@ -684,10 +2577,12 @@ const resolveAuthSettings = (input: {
   }
 
   if (typeof window === "undefined") {
-    throw new Error("publishableKey auth requires a browser environment.");
+    throw new Error(
+      "publishableKey auth requires a browser environment. Pass tokenProvider to use the client elsewhere.",
+    );
   }
 
-  const authority = `${getPublishableKeyAuthBaseUrl(input.parsed)}/v1/auth/`;
+  const authority = getPublishableKeyAuthority(input.parsed);
 
   const redirectUrl = getDefaultRedirectUrl();
 
@@ -704,7 +2599,6 @@ const resolveAuthSettings = (input: {
   return {
     ...defaults,
     ...input.options.authOverrides,
-    userStore: new WebStorageStateStore({ store: input.storage }),
-    stateStore: new WebStorageStateStore({ store: input.storage }),
+    ...getAuthStores(input),
   };
 };
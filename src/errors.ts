@@ -0,0 +1,313 @@
+export type ProblemDetails = {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  errors?: Record<string, string[] | string>;
+  [key: string]: unknown;
+};
+
+export type ValidationErrors = Record<string, string[]>;
+
+export type ValidationPath = (string | number)[];
+
+export class SyncHiveError extends Error {
+  override readonly name: string = "SyncHiveError";
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+    // Keep instanceof working when the SDK is transpiled to ES5 by consumers.
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class SyncHiveHttpError extends SyncHiveError {
+  override readonly name: string = "SyncHiveHttpError";
+  readonly status: number;
+  readonly statusText: string;
+  readonly url: string;
+  readonly method: string;
+  readonly headers: Headers;
+  /** Parsed JSON body when the response was JSON, otherwise the raw text. */
+  readonly body: unknown;
+  readonly responseText: string;
+  readonly problem?: ProblemDetails;
+  readonly validationErrors: ValidationErrors;
+
+  constructor(input: {
+    status: number;
+    statusText: string;
+    url: string;
+    method: string;
+    headers: Headers;
+    body: unknown;
+    text: string;
+  }) {
+    super(`Request failed (${input.status}): ${input.text}`);
+    this.status = input.status;
+    this.statusText = input.statusText;
+    this.url = input.url;
+    this.method = input.method;
+    this.headers = input.headers;
+    this.body = input.body;
+    this.responseText = input.text;
+    this.problem = toProblemDetails(input.body);
+    this.validationErrors = toValidationErrors(this.problem);
+  }
+
+  get isValidationError(): boolean {
+    return (
+      (this.status === 400 || this.status === 422) &&
+      Object.keys(this.validationErrors).length > 0
+    );
+  }
+}
+
+export class SyncHiveConflictError<T = unknown> extends SyncHiveHttpError {
+  override readonly name: string = "SyncHiveConflictError";
+  /** The record as it currently exists on the server, when it could be loaded. */
+  readonly current?: T;
+  readonly currentVersion?: string;
+
+  constructor(
+    input: ConstructorParameters<typeof SyncHiveHttpError>[0],
+    server: { current?: T; currentVersion?: string } = {},
+  ) {
+    super(input);
+    this.current = server.current;
+    this.currentVersion = server.currentVersion;
+  }
+
+  withCurrent<TCurrent>(
+    current: TCurrent | undefined,
+    currentVersion: string | undefined,
+  ): SyncHiveConflictError<TCurrent> {
+    return new SyncHiveConflictError<TCurrent>(
+      {
+        status: this.status,
+        statusText: this.statusText,
+        url: this.url,
+        method: this.method,
+        headers: this.headers,
+        body: this.body,
+        text: this.responseText,
+      },
+      { current, currentVersion },
+    );
+  }
+}
+
+export class SyncHiveNotAuthenticatedError extends SyncHiveError {
+  override readonly name: string = "SyncHiveNotAuthenticatedError";
+
+  constructor(
+    message = "User is not authenticated. Call signInRedirect() first.",
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+export class SyncHiveNetworkError extends SyncHiveError {
+  override readonly name: string = "SyncHiveNetworkError";
+  readonly url: string;
+  readonly method: string;
+
+  constructor(input: { url: string; method: string; cause: unknown }) {
+    super(
+      `Network request failed (${input.method} ${input.url}): ${describeCause(input.cause)}`,
+      input.cause,
+    );
+    this.url = input.url;
+    this.method = input.method;
+  }
+}
+
+export class SyncHiveSignInCallbackError extends SyncHiveError {
+  override readonly name: string = "SyncHiveSignInCallbackError";
+  readonly isSignOut: boolean;
+
+  constructor(input: { isSignOut: boolean; cause: unknown }) {
+    super(
+      `${input.isSignOut ? "Sign-out" : "Sign-in"} callback failed: ${describeCause(input.cause)}`,
+      input.cause,
+    );
+    this.isSignOut = input.isSignOut;
+  }
+}
+
+export class SyncHiveAbortError extends SyncHiveError {
+  override readonly name: string = "SyncHiveAbortError";
+
+  constructor(message = "Request was aborted.", cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+export class SyncHiveTimeoutError extends SyncHiveAbortError {
+  override readonly name: string = "SyncHiveTimeoutError";
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms.`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class SyncHiveShapeValidationError extends SyncHiveError {
+  override readonly name: string = "SyncHiveShapeValidationError";
+  readonly shape: string;
+  /** Whether a server response or an outgoing payload failed validation. */
+  readonly source: "response" | "payload";
+  readonly path: ValidationPath;
+
+  constructor(input: {
+    shape: string;
+    source: "response" | "payload";
+    path: ValidationPath;
+    message: string;
+    cause?: unknown;
+  }) {
+    super(
+      `${input.source === "payload" ? "Payload" : "Response"} for ${input.shape} is invalid at ${formatPath(input.path)}: ${input.message}`,
+      input.cause,
+    );
+    this.shape = input.shape;
+    this.source = input.source;
+    this.path = input.path;
+  }
+}
+
+export const isSyncHiveError = (error: unknown): error is SyncHiveError =>
+  error instanceof SyncHiveError;
+
+export const isHttpError = (
+  error: unknown,
+  status?: number,
+): error is SyncHiveHttpError =>
+  error instanceof SyncHiveHttpError &&
+  (status === undefined || error.status === status);
+
+export const isNotFoundError = (error: unknown): error is SyncHiveHttpError =>
+  isHttpError(error, 404);
+
+export const isValidationError = (error: unknown): error is SyncHiveHttpError =>
+  isHttpError(error) && error.isValidationError;
+
+export const isConflictError = <T = unknown>(
+  error: unknown,
+): error is SyncHiveConflictError<T> => error instanceof SyncHiveConflictError;
+
+export const isNotAuthenticatedError = (
+  error: unknown,
+): error is SyncHiveNotAuthenticatedError =>
+  error instanceof SyncHiveNotAuthenticatedError;
+
+export const isNetworkError = (error: unknown): error is SyncHiveNetworkError =>
+  error instanceof SyncHiveNetworkError;
+
+export const isSignInCallbackError = (
+  error: unknown,
+): error is SyncHiveSignInCallbackError =>
+  error instanceof SyncHiveSignInCallbackError;
+
+export const isAbortError = (error: unknown): error is SyncHiveAbortError =>
+  error instanceof SyncHiveAbortError;
+
+export const isTimeoutError = (error: unknown): error is SyncHiveTimeoutError =>
+  error instanceof SyncHiveTimeoutError;
+
+export const isShapeValidationError = (
+  error: unknown,
+): error is SyncHiveShapeValidationError =>
+  error instanceof SyncHiveShapeValidationError;
+
+export const createHttpError = async (
+  response: Response,
+  request: { url: string; method: string },
+): Promise<SyncHiveHttpError> => {
+  let text = "";
+  try {
+    text = await response.text();
+  } catch {
+    // Body may already be consumed or the stream may have been aborted.
+  }
+
+  const input = {
+    status: response.status,
+    statusText: response.statusText,
+    url: request.url,
+    method: request.method,
+    headers: response.headers,
+    body: parseBody(text, response.headers),
+    text,
+  };
+  return response.status === 409 || response.status === 412
+    ? new SyncHiveConflictError(input)
+    : new SyncHiveHttpError(input);
+};
+
+const formatPath = (path: ValidationPath): string => {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`,
+    )
+    .join("");
+};
+
+const parseBody = (text: string, headers: Headers): unknown => {
+  if (!text) return undefined;
+  const contentType = headers.get("Content-Type")?.toLowerCase() ?? "";
+  const looksLikeJson = /^\s*[[{]/.test(text);
+  if (!contentType.includes("json") && !looksLikeJson) return text;
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+};
+
+const toProblemDetails = (body: unknown): ProblemDetails | undefined => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return undefined;
+  }
+
+  const candidate = body as ProblemDetails;
+  const hasProblemField =
+    "title" in candidate ||
+    "detail" in candidate ||
+    "type" in candidate ||
+    "errors" in candidate;
+  return hasProblemField ? candidate : undefined;
+};
+
+const toValidationErrors = (
+  problem: ProblemDetails | undefined,
+): ValidationErrors => {
+  const errors = problem?.errors;
+  if (!errors || typeof errors !== "object") return {};
+
+  const result: ValidationErrors = {};
+  for (const [field, messages] of Object.entries(errors)) {
+    if (Array.isArray(messages)) {
+      result[field] = messages.map(String);
+    } else if (messages !== undefined && messages !== null) {
+      result[field] = [String(messages)];
+    }
+  }
+  return result;
+};
+
+const describeCause = (cause: unknown): string => {
+  if (cause instanceof Error) return cause.message;
+  return String(cause);
+};
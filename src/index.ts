@@ -1,10 +1,125 @@
+export { SyncHiveBatch } from "./batch";
 export { SyncHiveClient } from "./client";
+export {
+  isAbortError,
+  isConflictError,
+  isHttpError,
+  isNetworkError,
+  isNotAuthenticatedError,
+  isNotFoundError,
+  isShapeValidationError,
+  isSignInCallbackError,
+  isSyncHiveError,
+  isTimeoutError,
+  isValidationError,
+  SyncHiveAbortError,
+  SyncHiveConflictError,
+  SyncHiveError,
+  SyncHiveHttpError,
+  SyncHiveNetworkError,
+  SyncHiveNotAuthenticatedError,
+  SyncHiveShapeValidationError,
+  SyncHiveSignInCallbackError,
+  SyncHiveTimeoutError,
+} from "./errors";
 export type {
+  ProblemDetails,
+  ValidationErrors,
+  ValidationPath,
+} from "./errors";
+export { createStorageQueueStore, isTemporaryHiveId } from "./offline";
+export { detectTenantScope } from "./scope";
+export { createMemoryStorage } from "./storage";
+export {
+  createClientCredentialsProvider,
+  createRefreshTokenProvider,
+} from "./tokens";
+export { getVersion } from "./versions";
+export {
+  FieldFilter,
+  FilterExpression,
+  formatFilterLiteral,
+  orderBy,
+  OrderByExpression,
+  queryFor,
+  where,
+} from "./query";
+export type {
+  FieldOf,
+  FilterOperand,
+  FilterValue,
+  QueryBuilder,
+  SortDirection,
+} from "./query";
+export type {
+  AccessTokenCallback,
+  AccessTokenRequest,
+  AccessTokenResult,
+  Attachment,
+  AuthCallbackResult,
   AuthState,
+  AuthStateChangeDetails,
   AuthStateChangeListener,
+  AuthStateChangeOptions,
   AuthStateChangeTrigger,
   AuthStateChangeUnsubscribe,
+  AuthStorageMode,
+  AuthStorageOption,
+  AuthStorageOptions,
+  BatchOptions,
+  BatchProgress,
+  BatchResult,
+  BulkResult,
+  BulkUpdate,
+  CacheMode,
+  CacheOptions,
+  ClientCredentialsOptions,
+  DefaultServerField,
+  DownloadAttachmentOptions,
+  GetOptions,
+  InitOptions,
   ListParams,
   ListResult,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResult,
+  OfflineMutation,
+  OfflineMutationStatus,
+  OfflineOptions,
+  OfflineQueueEvent,
+  OfflineQueueListener,
+  OfflineQueueState,
+  OfflineQueueStore,
+  PaginateOptions,
+  Pagination,
+  RefreshTokenOptions,
+  RequestOptions,
+  RetryOptions,
+  SelectedRecord,
+  ShapeChangeEvent,
+  ShapeChangeHandler,
+  ShapeChangeType,
+  ShapeCreatePayload,
+  ShapeName,
+  ShapeRecord,
+  ShapeRecordOf,
+  ShapeSchema,
+  ShapeServerField,
+  ShapeType,
+  ShapeUpdatePayload,
+  ShapeValidator,
+  ShapeValidators,
+  ShapeValidatorSet,
+  SignInOptions,
+  SubscribeOptions,
+  SubscriptionUnsubscribe,
   SynchiveClientOptions,
+  TenantScope,
+  TokenEndpointOptions,
+  TokenProvider,
+  TransferProgress,
+  UntypedSchema,
+  UpdateOptions,
+  UploadAttachmentOptions,
+  UpsertOptions,
 } from "./types";
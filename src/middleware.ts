@@ -0,0 +1,38 @@
+import type { Middleware, MiddlewareRequest } from "./types";
+
+type Dispatch = (request: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Runs middleware as an onion around `dispatch`: `onRequest` hooks run in
+ * order, `onResponse`/`onError` hooks unwind in reverse. A hook that returns a
+ * `Response` replaces (or short-circuits) the response from the inner layers.
+ */
+export const runMiddleware = (
+  middleware: Middleware[],
+  request: MiddlewareRequest,
+  dispatch: Dispatch,
+): Promise<Response> => {
+  const next = async (index: number): Promise<Response> => {
+    if (index >= middleware.length) return dispatch(request);
+    const layer = middleware[index];
+
+    let response: Response;
+    const shortCircuit = await layer.onRequest?.(request);
+    if (shortCircuit instanceof Response) {
+      response = shortCircuit;
+    } else {
+      try {
+        response = await next(index + 1);
+      } catch (error) {
+        const recovered = await layer.onError?.(error, request);
+        if (!(recovered instanceof Response)) throw error;
+        response = recovered;
+      }
+    }
+
+    const replaced = await layer.onResponse?.(response, request);
+    return replaced instanceof Response ? replaced : response;
+  };
+
+  return next(0);
+};
@@ -0,0 +1,360 @@
+import {
+  isConflictError,
+  isHttpError,
+  isNetworkError,
+  isShapeValidationError,
+  SyncHiveError,
+} from "./errors";
+import { createIdempotencyKey } from "./retry";
+import type {
+  OfflineMutation,
+  OfflineOptions,
+  OfflineQueueEvent,
+  OfflineQueueListener,
+  OfflineQueueState,
+  OfflineQueueStore,
+} from "./types";
+
+const TEMPORARY_ID_PREFIX = "offline_";
+
+const DEFAULT_STORAGE_KEY = "synchive.offlineQueue";
+
+export const isTemporaryHiveId = (hiveId: string): boolean =>
+  hiveId.startsWith(TEMPORARY_ID_PREFIX);
+
+export const createStorageQueueStore = (
+  storage: Storage,
+  key = DEFAULT_STORAGE_KEY,
+): OfflineQueueStore => ({
+  load: () => {
+    const raw = storage.getItem(key);
+    if (!raw) return { items: [], idMap: {} };
+    try {
+      const parsed = JSON.parse(raw) as Partial<OfflineQueueState>;
+      return {
+        items: parsed.items ?? [],
+        idMap: parsed.idMap ?? {},
+        owner: parsed.owner,
+      };
+    } catch {
+      return { items: [], idMap: {} };
+    }
+  },
+  save: (state) => {
+    storage.setItem(key, JSON.stringify(state));
+  },
+});
+
+type NewMutation = Pick<
+  OfflineMutation,
+  "kind" | "shape" | "hiveId" | "payload" | "version"
+>;
+
+type Send = (mutation: OfflineMutation) => Promise<unknown>;
+
+type GetOwner = () => Promise<string | undefined>;
+
+/**
+ * Persists create/update calls that could not reach the server and replays
+ * them in order. Creates get a temporary hiveId that is swapped for the
+ * server id in later queued items once the create succeeds.
+ */
+export class OfflineQueue {
+  private readonly store: OfflineQueueStore;
+  private readonly options: OfflineOptions;
+  private readonly send: Send;
+  private readonly getOwner: GetOwner;
+  private readonly listeners = new Set<OfflineQueueListener>();
+  private state: OfflineQueueState = { items: [], idMap: {} };
+  private loading: Promise<void> | null = null;
+  private replaying: Promise<void> | null = null;
+
+  constructor(
+    store: OfflineQueueStore,
+    options: OfflineOptions,
+    send: Send,
+    getOwner: GetOwner,
+  ) {
+    this.store = store;
+    this.options = options;
+    this.send = send;
+    this.getOwner = getOwner;
+  }
+
+  /**
+   * Sends a mutation, or queues it when the network is unavailable or earlier
+   * mutations are still waiting (so order is preserved).
+   */
+  async run<T>(
+    input: NewMutation,
+    sendNow: (mutation: OfflineMutation) => Promise<T>,
+  ): Promise<T> {
+    await this.load();
+    await this.checkOwner();
+
+    const mutation: OfflineMutation = {
+      ...input,
+      id: createIdempotencyKey(),
+      idempotencyKey: createIdempotencyKey(),
+      tempId:
+        input.kind === "create"
+          ? `${TEMPORARY_ID_PREFIX}${createIdempotencyKey()}`
+          : undefined,
+      status: "pending",
+      attempts: 0,
+      queuedAt: new Date().toISOString(),
+    };
+    const resolved = this.resolveMutation(mutation);
+
+    const mustQueue =
+      this.state.items.length > 0 ||
+      isBrowserOffline() ||
+      (resolved.hiveId !== undefined && isTemporaryHiveId(resolved.hiveId));
+    if (!mustQueue) {
+      try {
+        return await sendNow(resolved);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await this.enqueue(mutation);
+    if (!isBrowserOffline()) {
+      // Earlier items may be waiting on a reconnect event that already fired.
+      void this.replay().catch(() => undefined);
+    }
+    return this.toOptimisticResult(resolved) as T;
+  }
+
+  resolveHiveId(hiveId: string): string {
+    return this.state.idMap[hiveId] ?? hiveId;
+  }
+
+  getItems(): OfflineMutation[] {
+    return this.state.items.map((item) => ({ ...item }));
+  }
+
+  subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  replay(): Promise<void> {
+    // One replay at a time keeps queued mutations strictly ordered.
+    if (!this.replaying) {
+      this.replaying = this.replayItems().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.state = { items: [], idMap: {} };
+    await this.persist();
+  }
+
+  /** Empties the queue and reports every dropped item as failed. */
+  async discard(reason: string): Promise<void> {
+    await this.load();
+    const items = this.state.items;
+    this.state = { items: [], idMap: {} };
+    await this.persist();
+
+    for (const item of items) {
+      const error = new SyncHiveError(
+        `Queued ${item.kind} for ${item.shape} was discarded because ${reason}.`,
+      );
+      const dropped: OfflineMutation = { ...item, status: "failed" };
+      this.emit({ type: "failed", item: dropped, error });
+      this.options.onFailure?.(dropped, error);
+    }
+  }
+
+  private async replayItems(): Promise<void> {
+    await this.load();
+    await this.checkOwner();
+
+    // clear() and discard() replace the state; a replay still in flight must
+    // then stop instead of touching the new queue.
+    const state = this.state;
+    while (this.state === state && state.items.length > 0) {
+      const item = state.items[0];
+      const resolved = this.resolveMutation(item);
+      item.status = "replaying";
+      item.attempts += 1;
+      this.emit({ type: "replaying", item: { ...item } });
+
+      let result: unknown;
+      try {
+        result = await this.send(resolved);
+      } catch (error) {
+        if (this.state !== state) return;
+        if (!this.isPermanentFailure(error)) {
+          // Still offline (or the server is struggling); try again later.
+          item.status = "pending";
+          await this.persist();
+          this.emit({ type: "pending", item: { ...item }, error });
+          return;
+        }
+
+        await this.settleFailure(item, error);
+        continue;
+      }
+
+      if (this.state !== state) return;
+      if (item.tempId) {
+        const hiveId = getHiveId(result);
+        if (hiveId) state.idMap[item.tempId] = hiveId;
+      }
+
+      state.items = state.items.filter((other) => other !== item);
+      await this.persist();
+      this.emit({
+        type: "succeeded",
+        item: { ...item, status: "succeeded" },
+        result,
+      });
+    }
+  }
+
+  private async settleFailure(
+    item: OfflineMutation,
+    error: unknown,
+  ): Promise<void> {
+    const isConflict = isConflictError(error);
+    const failed: OfflineMutation = {
+      ...item,
+      status: isConflict ? "conflict" : "failed",
+    };
+
+    // Later mutations that target a create which never happened cannot succeed.
+    const dependents = item.tempId
+      ? this.state.items.filter(
+          (other) => other !== item && other.hiveId === item.tempId,
+        )
+      : [];
+    this.state.items = this.state.items.filter(
+      (other) => other !== item && !dependents.includes(other),
+    );
+    await this.persist();
+
+    this.emit({ type: failed.status, item: failed, error });
+    if (isConflictError(error)) {
+      this.options.onConflict?.(failed, error);
+    } else {
+      this.options.onFailure?.(failed, error);
+    }
+
+    for (const dependent of dependents) {
+      const dependentError = new SyncHiveError(
+        `Queued ${dependent.kind} for ${dependent.shape} was dropped because the create it depends on failed.`,
+        error,
+      );
+      const dropped: OfflineMutation = { ...dependent, status: "failed" };
+      this.emit({ type: "failed", item: dropped, error: dependentError });
+      this.options.onFailure?.(dropped, dependentError);
+    }
+  }
+
+  private async checkOwner(): Promise<void> {
+    // Queued writes belong to the user who made them and must never replay
+    // under another user's token. Without a signed-in user there is nothing
+    // to compare, so the queue is kept.
+    const owner = await this.getOwner();
+    if (!owner || owner === this.state.owner) return;
+    if (this.state.owner) await this.discard("a different user signed in");
+    this.state.owner = owner;
+    await this.persist();
+  }
+
+  private isPermanentFailure(error: unknown): boolean {
+    if (isNetworkError(error)) return false;
+    // The server already applied the write; replaying cannot fix its response.
+    if (isShapeValidationError(error)) return true;
+    if (isHttpError(error)) {
+      return error.status !== 401 && error.status !== 429 && error.status < 500;
+    }
+    // Auth and abort errors leave the item queued for the next replay.
+    return !(error instanceof SyncHiveError);
+  }
+
+  private async enqueue(mutation: OfflineMutation): Promise<void> {
+    this.state.items.push(mutation);
+    await this.persist();
+    this.emit({ type: "queued", item: { ...mutation } });
+  }
+
+  private resolveMutation(mutation: OfflineMutation): OfflineMutation {
+    const idMap = this.state.idMap;
+    return {
+      ...mutation,
+      hiveId: mutation.hiveId ? this.resolveHiveId(mutation.hiveId) : undefined,
+      // Payloads may reference records created offline (e.g. a parent id).
+      payload: replaceIds(mutation.payload, idMap),
+    };
+  }
+
+  private toOptimisticResult(mutation: OfflineMutation): unknown {
+    const hiveId = mutation.tempId ?? mutation.hiveId;
+    if (isPlainObject(mutation.payload)) {
+      return { ...mutation.payload, hiveId };
+    }
+    return mutation.payload;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.resolve(this.store.load()).then((state) => {
+        this.state = {
+          items: [...state.items, ...this.state.items],
+          idMap: { ...state.idMap, ...this.state.idMap },
+          owner: this.state.owner ?? state.owner,
+        };
+      });
+    }
+    return this.loading;
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.save({
+      items: this.state.items,
+      idMap: this.state.idMap,
+      owner: this.state.owner,
+    });
+  }
+
+  private emit(event: OfflineQueueEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+export const isBrowserOffline = (): boolean =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+const getHiveId = (result: unknown): string | undefined => {
+  if (!isPlainObject(result)) return undefined;
+  return typeof result.hiveId === "string" ? result.hiveId : undefined;
+};
+
+const replaceIds = (value: unknown, idMap: Record<string, string>): unknown => {
+  if (typeof value === "string") return idMap[value] ?? value;
+  if (Array.isArray(value)) return value.map((item) => replaceIds(item, idMap));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replaceIds(item, idMap),
+      ]),
+    );
+  }
+  return value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
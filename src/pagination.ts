@@ -0,0 +1,77 @@
+import { throwIfAborted } from "./abort";
+import type { ListParams, ListResult, PaginateOptions } from "./types";
+
+type FetchPage<T> = (params: ListParams<T>) => Promise<ListResult<T>>;
+
+export async function* paginateList<T>(
+  fetchPage: FetchPage<T>,
+  params: ListParams<T> = {},
+  options: PaginateOptions = {},
+): AsyncGenerator<ListResult<T>, void, undefined> {
+  const { maxItems, signal } = options;
+  let skip = params.skip ?? 0;
+  let cursor = params.cursor;
+  let pageSize = params.top;
+  let yielded = 0;
+
+  while (maxItems === undefined || yielded < maxItems) {
+    throwIfAborted(signal);
+
+    const remaining = maxItems === undefined ? undefined : maxItems - yielded;
+    const top =
+      pageSize !== undefined && remaining !== undefined
+        ? Math.min(pageSize, remaining)
+        : pageSize;
+    // Once the server hands out continuation tokens, follow them instead of skip.
+    const page = await fetchPage(
+      cursor === undefined
+        ? { ...params, top, skip }
+        : { ...params, top, skip: undefined, cursor },
+    );
+    throwIfAborted(signal);
+
+    const shapes =
+      remaining !== undefined && page.shapes.length > remaining
+        ? page.shapes.slice(0, remaining)
+        : page.shapes;
+    if (shapes.length === 0) return;
+
+    yield shapes === page.shapes ? page : { ...page, shapes };
+    yielded += shapes.length;
+    skip += page.shapes.length;
+
+    const { nextCursor } = page.pagination;
+    if (nextCursor || cursor !== undefined) {
+      if (!nextCursor) return;
+      cursor = nextCursor;
+      continue;
+    }
+
+    // Without an explicit top, follow the page size the server chose.
+    pageSize ??= page.pagination.pageSize ?? page.shapes.length;
+    if (isLastPage(page, skip, pageSize)) return;
+  }
+}
+
+export async function* iterateRecords<T>(
+  pages: AsyncIterable<ListResult<T>>,
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of pages) {
+    yield* page.shapes;
+  }
+}
+
+const isLastPage = <T>(
+  page: ListResult<T>,
+  fetchedThrough: number,
+  pageSize: number,
+): boolean => {
+  const { totalItems, totalPages, pageNumber } = page.pagination;
+  if (totalPages !== undefined && pageNumber !== undefined) {
+    return pageNumber >= totalPages;
+  }
+  if (totalItems !== undefined) {
+    return fetchedThrough >= totalItems;
+  }
+  return page.shapes.length < pageSize;
+};
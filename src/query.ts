@@ -0,0 +1,215 @@
+import type { ShapeRecord } from "./types";
+
+export type FieldOf<T> = Extract<keyof T, string>;
+
+export type FilterValue = string | number | boolean | Date | null;
+
+export type FilterOperand<V> = unknown extends V
+  ? FilterValue
+  : Extract<V, FilterValue> | null;
+
+export type SortDirection = "asc" | "desc";
+
+type ExpressionKind = "atom" | "and" | "or";
+
+const fieldNamePattern = /^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+const formatField = (field: string): string => {
+  if (!fieldNamePattern.test(field)) {
+    throw new Error(`"${field}" is not a valid field name.`);
+  }
+  return field;
+};
+
+/**
+ * Formats a value as a filter literal. Strings are single-quoted with embedded
+ * quotes doubled, so user input cannot break out of the literal.
+ */
+export const formatFilterLiteral = (value: FilterValue): string => {
+  if (value === null) return "null";
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error("Invalid Date cannot be used in a filter.");
+    }
+    return value.toISOString();
+  }
+
+  switch (typeof value) {
+    case "string":
+      return `'${value.replace(/'/g, "''")}'`;
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new Error(`${value} cannot be used in a filter.`);
+      }
+      return String(value);
+    case "boolean":
+      return value ? "true" : "false";
+    default:
+      throw new Error(`Unsupported filter value type: ${typeof value}.`);
+  }
+};
+
+export class FilterExpression<T = ShapeRecord> {
+  private readonly expression: string;
+  private readonly kind: ExpressionKind;
+
+  constructor(expression: string, kind: ExpressionKind = "atom") {
+    this.expression = expression;
+    this.kind = kind;
+  }
+
+  and(...others: FilterExpression<T>[]): FilterExpression<T> {
+    return this.combine("and", others);
+  }
+
+  or(...others: FilterExpression<T>[]): FilterExpression<T> {
+    return this.combine("or", others);
+  }
+
+  not(): FilterExpression<T> {
+    return new FilterExpression<T>(`not (${this.expression})`);
+  }
+
+  toString(): string {
+    return this.expression;
+  }
+
+  private combine(
+    kind: "and" | "or",
+    others: FilterExpression<T>[],
+  ): FilterExpression<T> {
+    if (others.length === 0) return this;
+    const expression = [this, ...others]
+      .map((operand) =>
+        // "and" binds tighter than "or", so only or-groups inside and need parens.
+        operand.kind === "or" && kind === "and"
+          ? `(${operand.expression})`
+          : operand.expression,
+      )
+      .join(` ${kind} `);
+    return new FilterExpression<T>(expression, kind);
+  }
+}
+
+export class FieldFilter<T, K extends FieldOf<T>> {
+  private readonly field: string;
+
+  constructor(field: K) {
+    this.field = formatField(field);
+  }
+
+  eq(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("eq", value);
+  }
+
+  ne(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("ne", value);
+  }
+
+  gt(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("gt", value);
+  }
+
+  ge(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("ge", value);
+  }
+
+  lt(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("lt", value);
+  }
+
+  le(value: FilterOperand<T[K]>): FilterExpression<T> {
+    return this.compare("le", value);
+  }
+
+  in(values: FilterOperand<T[K]>[]): FilterExpression<T> {
+    if (values.length === 0) {
+      throw new Error(`in() for "${this.field}" requires at least one value.`);
+    }
+    const [first, ...rest] = values.map((value) => this.compare("eq", value));
+    return first.or(...rest);
+  }
+
+  contains(value: string): FilterExpression<T> {
+    return this.call("contains", value);
+  }
+
+  startsWith(value: string): FilterExpression<T> {
+    return this.call("startswith", value);
+  }
+
+  endsWith(value: string): FilterExpression<T> {
+    return this.call("endswith", value);
+  }
+
+  private compare(operator: string, value: FilterValue): FilterExpression<T> {
+    return new FilterExpression<T>(
+      `${this.field} ${operator} ${formatFilterLiteral(value)}`,
+    );
+  }
+
+  private call(fn: string, value: string): FilterExpression<T> {
+    return new FilterExpression<T>(
+      `${fn}(${this.field},${formatFilterLiteral(value)})`,
+    );
+  }
+}
+
+export class OrderByExpression<T = ShapeRecord> {
+  private readonly clauses: string[];
+
+  constructor(clauses: string[]) {
+    this.clauses = clauses;
+  }
+
+  thenBy(
+    field: FieldOf<T>,
+    direction: SortDirection = "asc",
+  ): OrderByExpression<T> {
+    return new OrderByExpression<T>([
+      ...this.clauses,
+      formatOrderByClause(field, direction),
+    ]);
+  }
+
+  toString(): string {
+    return this.clauses.join(",");
+  }
+}
+
+const formatOrderByClause = (
+  field: string,
+  direction: SortDirection,
+): string => {
+  if (direction !== "asc" && direction !== "desc") {
+    throw new Error(`"${String(direction)}" is not a valid sort direction.`);
+  }
+  return `${formatField(field)} ${direction}`;
+};
+
+export const where = <T = ShapeRecord, K extends FieldOf<T> = FieldOf<T>>(
+  field: K,
+): FieldFilter<T, K> => new FieldFilter<T, K>(field);
+
+export const orderBy = <T = ShapeRecord>(
+  field: FieldOf<T>,
+  direction: SortDirection = "asc",
+): OrderByExpression<T> =>
+  new OrderByExpression<T>([formatOrderByClause(field, direction)]);
+
+export type QueryBuilder<T> = {
+  where: <K extends FieldOf<T>>(field: K) => FieldFilter<T, K>;
+  orderBy: (
+    field: FieldOf<T>,
+    direction?: SortDirection,
+  ) => OrderByExpression<T>;
+};
+
+/**
+ * Binds `where` and `orderBy` to a record type so field names and operand
+ * types are both inferred, e.g. `queryFor<Product>().where("price").gt(10)`.
+ */
+export const queryFor = <T>(): QueryBuilder<T> => ({
+  where: (field) => new FieldFilter(field),
+  orderBy: (field, direction) => orderBy<T>(field, direction),
+});
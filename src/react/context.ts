@@ -0,0 +1,160 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactElement,
+} from "react";
+import type {
+  InitOptions,
+  ShapeSchema,
+  SyncHiveClient,
+  UntypedSchema,
+} from "@synchive/synchive-js";
+import type { AuthSnapshot, SyncHiveProviderProps } from "./types";
+
+type ShapeListener = () => void;
+
+export type SyncHiveContextValue = {
+  client: SyncHiveClient<UntypedSchema>;
+  auth: AuthSnapshot;
+  notifyShape: (shape: string) => void;
+  subscribeShape: (shape: string, listener: ShapeListener) => () => void;
+};
+
+const SyncHiveContext = createContext<SyncHiveContextValue | null>(null);
+
+// StrictMode mounts effects twice; the sign-in callback must only be handled once.
+const initializations = new WeakMap<object, Promise<void>>();
+
+const initializeOnce = (
+  client: SyncHiveClient<UntypedSchema>,
+  options?: InitOptions,
+): Promise<void> => {
+  let pending = initializations.get(client);
+  if (!pending) {
+    pending = client.init(options).then(() => undefined);
+    initializations.set(client, pending);
+  }
+  return pending;
+};
+
+const createShapeEvents = () => {
+  const listeners = new Map<string, Set<ShapeListener>>();
+  return {
+    notifyShape: (shape: string): void => {
+      for (const listener of [...(listeners.get(shape) ?? [])]) {
+        listener();
+      }
+    },
+    subscribeShape: (shape: string, listener: ShapeListener) => {
+      const shapeListeners = listeners.get(shape) ?? new Set();
+      shapeListeners.add(listener);
+      listeners.set(shape, shapeListeners);
+      return () => {
+        shapeListeners.delete(listener);
+        if (shapeListeners.size === 0) listeners.delete(shape);
+      };
+    },
+  };
+};
+
+type AuthProgress = AuthSnapshot & {
+  isInitialized: boolean;
+  hasState: boolean;
+};
+
+const initialAuth: AuthProgress = {
+  user: null,
+  isAuthenticated: false,
+  isLoading: true,
+  error: undefined,
+  isInitialized: false,
+  hasState: false,
+};
+
+const settle = (progress: AuthProgress): AuthProgress => ({
+  ...progress,
+  isLoading: !progress.isInitialized || !progress.hasState,
+});
+
+/**
+ * Makes a client available to the hooks. Calls `init()` once per client and
+ * tracks auth state through `onAuthStateChange()`.
+ */
+export const SyncHiveProvider = <S extends ShapeSchema = UntypedSchema>({
+  client: typedClient,
+  children,
+  onInitError,
+  initOptions,
+}: SyncHiveProviderProps<S>): ReactElement => {
+  const client = typedClient as unknown as SyncHiveClient<UntypedSchema>;
+  const [auth, setAuth] = useState<AuthProgress>(initialAuth);
+  const [events] = useState(createShapeEvents);
+  const onInitErrorRef = useRef(onInitError);
+  onInitErrorRef.current = onInitError;
+  const initOptionsRef = useRef(initOptions);
+  initOptionsRef.current = initOptions;
+
+  useEffect(() => {
+    let isActive = true;
+    setAuth(initialAuth);
+
+    initializeOnce(client, initOptionsRef.current).then(
+      () => {
+        if (isActive) {
+          setAuth((current) => settle({ ...current, isInitialized: true }));
+        }
+      },
+      (error: unknown) => {
+        if (!isActive) return;
+        setAuth((current) =>
+          settle({ ...current, isInitialized: true, error }),
+        );
+        onInitErrorRef.current?.(error);
+      },
+    );
+
+    const unsubscribe = client.onAuthStateChange(
+      ({ user, isAuthenticated }) => {
+        if (!isActive) return;
+        setAuth((current) =>
+          settle({ ...current, user, isAuthenticated, hasState: true }),
+        );
+      },
+    );
+
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [client]);
+
+  const value = useMemo<SyncHiveContextValue>(
+    () => ({
+      client,
+      auth: {
+        user: auth.user,
+        isAuthenticated: auth.isAuthenticated,
+        isLoading: auth.isLoading,
+        error: auth.error,
+      },
+      notifyShape: events.notifyShape,
+      subscribeShape: events.subscribeShape,
+    }),
+    [client, auth, events],
+  );
+
+  return createElement(SyncHiveContext.Provider, { value }, children);
+};
+
+export const useSyncHiveContext = (): SyncHiveContextValue => {
+  const context = useContext(SyncHiveContext);
+  if (!context) {
+    throw new Error("SyncHive hooks must be used inside <SyncHiveProvider>.");
+  }
+  return context;
+};
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  FilterExpression,
+  isAbortError,
+  OrderByExpression,
+  type ListParams,
+  type ListResult,
+  type RequestOptions,
+  type ShapeRecord,
+  type ShapeSchema,
+  type SignInOptions,
+  type SyncHiveClient,
+  type UntypedSchema,
+  type UpdateOptions,
+} from "@synchive/synchive-js";
+import { useSyncHiveContext } from "./context";
+import type {
+  QueryOptions,
+  QueryResult,
+  UseAuthResult,
+  UseMutationResult,
+} from "./types";
+
+type QueryState<T> = {
+  key: string | null;
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;
+};
+
+export const useSyncHive = <
+  S extends ShapeSchema = UntypedSchema,
+>(): SyncHiveClient<S> =>
+  useSyncHiveContext().client as unknown as SyncHiveClient<S>;
+
+export const useAuth = (): UseAuthResult => {
+  const { client, auth } = useSyncHiveContext();
+  const signIn = useCallback(
+    (options?: SignInOptions) => client.signInRedirect(options),
+    [client],
+  );
+  const signOut = useCallback(() => client.signOutRedirect(), [client]);
+  return useMemo(() => ({ ...auth, signIn, signOut }), [auth, signIn, signOut]);
+};
+
+export const useShapeList = <T = ShapeRecord>(
+  shape: string,
+  params?: ListParams<T>,
+  options?: QueryOptions,
+): QueryResult<ListResult<T>> => {
+  const { client } = useSyncHiveContext();
+  const key =
+    options?.enabled === false
+      ? null
+      : `list:${shape}:${serializeKey(params)}:${serializeKey(options)}`;
+  return useShapeQuery(shape, key, (signal) =>
+    client.list<T>(shape, params, { ...options, signal }),
+  );
+};
+
+export const useShape = <T = ShapeRecord>(
+  shape: string,
+  hiveId: string | null | undefined,
+  options?: QueryOptions,
+): QueryResult<T> => {
+  const { client } = useSyncHiveContext();
+  const key =
+    !hiveId || options?.enabled === false
+      ? null
+      : `get:${shape}:${hiveId}:${serializeKey(options)}`;
+  return useShapeQuery(shape, key, (signal) =>
+    client.get<T>(shape, hiveId ?? "", { ...options, signal }),
+  );
+};
+
+/**
+ * Wraps `create()`/`update()` for one shape with pending and error state.
+ * Mounted `useShapeList`/`useShape` hooks for the shape refetch afterwards.
+ */
+export const useMutation = <T = ShapeRecord>(
+  shape: string,
+): UseMutationResult<T> => {
+  const { client, notifyShape } = useSyncHiveContext();
+  const [state, setState] = useState<{
+    data: T | undefined;
+    error: unknown;
+    isPending: boolean;
+  }>({ data: undefined, error: undefined, isPending: false });
+  const isMounted = useRef(false);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const run = useCallback(
+    async (send: () => Promise<T>): Promise<T> => {
+      setState((current) => ({
+        ...current,
+        error: undefined,
+        isPending: true,
+      }));
+      try {
+        const data = await send();
+        if (isMounted.current) {
+          setState({ data, error: undefined, isPending: false });
+        }
+        return data;
+      } catch (error) {
+        if (isMounted.current) {
+          setState((current) => ({ ...current, error, isPending: false }));
+        }
+        throw error;
+      } finally {
+        // Refetch even after a failure; a conflict means local data is stale.
+        notifyShape(shape);
+      }
+    },
+    [notifyShape, shape],
+  );
+
+  const create = useCallback(
+    (payload: T, options?: RequestOptions) =>
+      run(() => client.create<T>(shape, payload, options)),
+    [client, run, shape],
+  );
+
+  const update = useCallback(
+    (hiveId: string, payload: Partial<T>, options?: UpdateOptions) =>
+      run(() => client.update<T>(shape, hiveId, payload, options)),
+    [client, run, shape],
+  );
+
+  const reset = useCallback(() => {
+    setState({ data: undefined, error: undefined, isPending: false });
+  }, []);
+
+  return useMemo(
+    () => ({ ...state, create, update, reset }),
+    [state, create, update, reset],
+  );
+};
+
+const useShapeQuery = <T>(
+  shape: string,
+  key: string | null,
+  load: (signal: AbortSignal) => Promise<T>,
+): QueryResult<T> => {
+  const { subscribeShape } = useSyncHiveContext();
+  const [state, setState] = useState<QueryState<T>>({
+    key,
+    data: undefined,
+    error: undefined,
+    isLoading: key !== null,
+  });
+  const [revision, setRevision] = useState(0);
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(() => {
+    if (key === null) {
+      setState({ key, data: undefined, error: undefined, isLoading: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    // Keep showing the previous data while refetching the same query.
+    setState((current) =>
+      current.key === key
+        ? { ...current, isLoading: true }
+        : { key, data: undefined, error: undefined, isLoading: true },
+    );
+
+    loadRef.current(controller.signal).then(
+      (data) => {
+        if (controller.signal.aborted) return;
+        setState({ key, data, error: undefined, isLoading: false });
+      },
+      (error: unknown) => {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        setState((current) => ({ ...current, error, isLoading: false }));
+      },
+    );
+
+    return () => controller.abort();
+  }, [key, revision]);
+
+  useEffect(
+    () => subscribeShape(shape, () => setRevision((value) => value + 1)),
+    [shape, subscribeShape],
+  );
+
+  const refetch = useCallback(() => setRevision((value) => value + 1), []);
+
+  return {
+    data: state.key === key ? state.data : undefined,
+    error: state.key === key ? state.error : undefined,
+    isLoading: key !== null && (state.key !== key || state.isLoading),
+    refetch,
+  };
+};
+
+const serializeKey = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_name, item: unknown) =>
+    item instanceof FilterExpression || item instanceof OrderByExpression
+      ? item.toString()
+      : item,
+  );
@@ -0,0 +1,16 @@
+export { SyncHiveProvider } from "./context";
+export {
+  useAuth,
+  useMutation,
+  useShape,
+  useShapeList,
+  useSyncHive,
+} from "./hooks";
+export type {
+  AuthSnapshot,
+  QueryOptions,
+  QueryResult,
+  SyncHiveProviderProps,
+  UseAuthResult,
+  UseMutationResult,
+} from "./types";
@@ -0,0 +1,55 @@
+import type { ReactNode } from "react";
+import type {
+  AuthCallbackResult,
+  InitOptions,
+  RequestOptions,
+  ShapeRecord,
+  ShapeSchema,
+  SignInOptions,
+  SyncHiveClient,
+  UpdateOptions,
+} from "@synchive/synchive-js";
+import type { User } from "oidc-client-ts";
+
+export type SyncHiveProviderProps<S extends ShapeSchema> = {
+  client: SyncHiveClient<S>;
+  children?: ReactNode;
+  onInitError?: (error: unknown) => void;
+  initOptions?: InitOptions;
+};
+
+export type AuthSnapshot = {
+  user: User | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  error: unknown;
+};
+
+export type UseAuthResult = AuthSnapshot & {
+  signIn: (options?: SignInOptions) => Promise<AuthCallbackResult | null>;
+  signOut: () => Promise<void>;
+};
+
+export type QueryOptions = Omit<RequestOptions, "signal"> & {
+  enabled?: boolean;
+};
+
+export type QueryResult<T> = {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;
+  refetch: () => void;
+};
+
+export type UseMutationResult<T = ShapeRecord> = {
+  create: (payload: T, options?: RequestOptions) => Promise<T>;
+  update: (
+    hiveId: string,
+    payload: Partial<T>,
+    options?: UpdateOptions,
+  ) => Promise<T>;
+  data: T | undefined;
+  error: unknown;
+  isPending: boolean;
+  reset: () => void;
+};
@@ -0,0 +1,112 @@
+import { abortable } from "./abort";
+import type { RetryOptions } from "./types";
+
+export type RetryPolicy = Required<RetryOptions>;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  retryOnStatus: [429, 502, 503, 504],
+  retryNetworkErrors: true,
+  idempotencyKeys: true,
+};
+
+const DISABLED_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export const resolveRetryPolicy = (
+  clientRetry: RetryOptions | false | undefined,
+  callRetry: RetryOptions | false | undefined,
+): RetryPolicy => {
+  if (callRetry === false) return DISABLED_RETRY_POLICY;
+  if (clientRetry === false && callRetry === undefined) {
+    return DISABLED_RETRY_POLICY;
+  }
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(clientRetry || {}),
+    ...(callRetry || {}),
+  };
+};
+
+export const isIdempotentMethod = (method: string): boolean =>
+  IDEMPOTENT_METHODS.includes(method.toUpperCase());
+
+export const isRetryableStatus = (
+  policy: RetryPolicy,
+  status: number,
+): boolean => policy.retryOnStatus.includes(status);
+
+/**
+ * Returns how long to wait before the next attempt, or `undefined` when the
+ * server asked for a longer pause than the policy is willing to wait.
+ */
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  headers?: Headers,
+): number | undefined => {
+  const retryAfter = parseRetryAfter(headers?.get("Retry-After") ?? null);
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+  }
+
+  // Exponential backoff with full jitter.
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(Math.random() * ceiling);
+};
+
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+};
+
+export const createIdempotencyKey = (): string => {
+  const cryptoApi = globalThis.crypto;
+  if (cryptoApi && typeof cryptoApi.randomUUID === "function") {
+    return cryptoApi.randomUUID();
+  }
+
+  // Fallback for runtimes without randomUUID (older browsers, some test envs).
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === "x" ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+};
+
+export const sleep = async (
+  ms: number,
+  signal?: AbortSignal,
+): Promise<void> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await abortable(
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, ms);
+      }),
+      signal,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,54 @@
+import type { TenantScope } from "./types";
+
+const tenantAppBasePathPattern = /^\/workspace\/([^/]+)\/hive\/([^/]+)/;
+
+// Matches a scope segment anywhere in an API path, e.g. `/v1/workspace/w/hive/h/shape`.
+const tenantApiPathPattern = /\/workspace\/[^/]+\/hive\/[^/]+(?=\/|$)/;
+
+export const getTenantAppBasePath = (pathname?: string): string => {
+  if (pathname) {
+    const match = pathname.match(tenantAppBasePathPattern);
+    return match?.[0] ?? "";
+  }
+
+  if (typeof window === "undefined") return "";
+  return getTenantAppBasePath(window.location.pathname);
+};
+
+/**
+ * Reads the workspace and hive from an app path shaped like
+ * `/workspace/:workspaceId/hive/:hiveId/...`. Defaults to the current
+ * `window.location.pathname`; returns `undefined` when the path does not match.
+ */
+export const detectTenantScope = (
+  pathname?: string,
+): TenantScope | undefined => {
+  const basePath = getTenantAppBasePath(pathname);
+  const match = basePath.match(tenantAppBasePathPattern);
+  if (!match) return undefined;
+
+  return {
+    workspaceId: safeDecode(match[1]),
+    hiveId: safeDecode(match[2]),
+  };
+};
+
+export const formatTenantScopePath = (scope: TenantScope): string =>
+  `/workspace/${encodeURIComponent(scope.workspaceId)}/hive/${encodeURIComponent(scope.hiveId)}`;
+
+/** Swaps an existing scope segment for `scopePath`, if the path has one. */
+export const replaceTenantScopePath = (
+  pathname: string,
+  scopePath: string,
+): string | undefined =>
+  tenantApiPathPattern.test(pathname)
+    ? pathname.replace(tenantApiPathPattern, scopePath)
+    : undefined;
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
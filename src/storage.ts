@@ -0,0 +1,67 @@
+import { WebStorageStateStore, type StateStore } from "oidc-client-ts";
+import type {
+  AuthStorageMode,
+  AuthStorageOption,
+  AuthStorageOptions,
+} from "./types";
+
+/**
+ * A `Storage` implementation that keeps values in memory. Used by default when
+ * there is no `window` (Node scripts, workers, tests), so nothing outlives the
+ * process.
+ */
+export const createMemoryStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => [...values.keys()][index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, String(value));
+    },
+  };
+};
+
+const isStateStore = (value: unknown): value is StateStore =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as StateStore).get === "function";
+
+export const normalizeAuthStorage = (
+  value: AuthStorageOption | AuthStorageOptions | undefined,
+): AuthStorageOptions => {
+  if (value === undefined) return {};
+  return typeof value === "string" || isStateStore(value)
+    ? { user: value }
+    : value;
+};
+
+/**
+ * Resolves an `authStorage` entry to the store `oidc-client-ts` expects.
+ * Without an entry, the client's `storage` is used as before.
+ */
+export const resolveAuthStore = (
+  option: AuthStorageOption | undefined,
+  fallback: Storage,
+): StateStore => {
+  if (isStateStore(option)) return option;
+  return new WebStorageStateStore({
+    store: option ? getModeStorage(option) : fallback,
+  });
+};
+
+const getModeStorage = (mode: AuthStorageMode): Storage => {
+  if (mode === "memory") return createMemoryStorage();
+
+  const storage = typeof window === "undefined" ? undefined : window[mode];
+  if (!storage) {
+    throw new Error(`authStorage "${mode}" is not available here.`);
+  }
+  return storage;
+};
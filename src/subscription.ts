@@ -0,0 +1,272 @@
+import { toAbortError } from "./abort";
+import {
+  createHttpError,
+  isAbortError,
+  isNotAuthenticatedError,
+  SyncHiveError,
+} from "./errors";
+import { getRetryDelay, sleep, type RetryPolicy } from "./retry";
+import type { ShapeChangeEvent, ShapeChangeType } from "./types";
+
+const RECONNECT_POLICY: RetryPolicy = {
+  maxAttempts: Number.POSITIVE_INFINITY,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  retryOnStatus: [],
+  retryNetworkErrors: true,
+  idempotencyKeys: false,
+};
+
+const CHANGE_TYPES: ShapeChangeType[] = ["created", "updated", "deleted"];
+
+type ServerSentEvent = {
+  id?: string;
+  event: string;
+  data: string;
+};
+
+type ServerSentEventHandlers = {
+  onEvent: (event: ServerSentEvent) => void;
+  onRetry: (ms: number) => void;
+};
+
+type Connect = (
+  lastEventId: string | undefined,
+  signal: AbortSignal,
+) => Promise<Response>;
+
+type SubscriptionInput<T> = {
+  shape: string;
+  connect: Connect;
+  onChange: (event: ShapeChangeEvent<T>) => void;
+  onError?: (error: unknown) => void;
+  lastEventId?: string;
+};
+
+/**
+ * Keeps a server-sent-events stream open, reconnecting with backoff and
+ * resuming from the last delivered event id.
+ */
+export class ShapeSubscription<T> {
+  private readonly input: SubscriptionInput<T>;
+  private lastEventId: string | undefined;
+  private controller: AbortController | null = null;
+  private closed = false;
+  private parked: (() => void) | null = null;
+  private serverRetryMs: number | undefined;
+
+  constructor(input: SubscriptionInput<T>) {
+    this.input = input;
+    this.lastEventId = input.lastEventId;
+  }
+
+  start(): void {
+    void this.run();
+  }
+
+  /**
+   * Drops the current connection and opens a new one right away. A stream
+   * parked after a `401` resumes here once a new token is available.
+   */
+  reconnect(): void {
+    if (this.parked) {
+      this.resume();
+      return;
+    }
+    this.controller?.abort();
+  }
+
+  /** Reopens a stream parked after a `401`; does nothing otherwise. */
+  resume(): void {
+    const wake = this.parked;
+    this.parked = null;
+    wake?.();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.controller?.abort();
+    this.resume();
+  }
+
+  private async run(): Promise<void> {
+    let failures = 0;
+
+    while (!this.closed) {
+      const controller = new AbortController();
+      this.controller = controller;
+
+      try {
+        const response = await this.input.connect(
+          this.lastEventId,
+          controller.signal,
+        );
+        if (!response.ok) {
+          throw await createHttpError(response, {
+            url: response.url,
+            method: "GET",
+          });
+        }
+        if (!response.body) {
+          throw new SyncHiveError("Subscription response has no body.");
+        }
+
+        failures = 0;
+        await readServerSentEvents(
+          response.body,
+          {
+            onEvent: (event) => this.dispatch(event),
+            onRetry: (ms) => {
+              this.serverRetryMs = ms;
+            },
+          },
+          controller.signal,
+        );
+      } catch (error) {
+        if (this.closed) return;
+        // reconnect() aborts on purpose; open the next stream immediately.
+        if (controller.signal.aborted || isAbortError(error)) continue;
+
+        this.input.onError?.(error);
+        if (isNotAuthenticatedError(error)) {
+          // Retrying will not help until the user signs in or the token is renewed.
+          await this.park();
+          failures = 0;
+          continue;
+        }
+
+        failures += 1;
+        await this.wait(getRetryDelay(RECONNECT_POLICY, failures) ?? 0);
+        continue;
+      }
+
+      // The server ended the stream cleanly; resume after its suggested delay.
+      if (!this.closed) {
+        await this.wait(this.serverRetryMs ?? RECONNECT_POLICY.baseDelayMs);
+      }
+    }
+  }
+
+  private dispatch(event: ServerSentEvent): void {
+    if (event.id !== undefined) this.lastEventId = event.id;
+
+    const change = toShapeChange<T>(this.input.shape, event);
+    if (change) this.input.onChange(change);
+  }
+
+  private park(): Promise<void> {
+    this.controller = null;
+    return new Promise((resolve) => {
+      this.parked = resolve;
+    });
+  }
+
+  private async wait(ms: number): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      await sleep(ms, controller.signal);
+    } catch {
+      // Closed or asked to reconnect while waiting.
+    }
+  }
+}
+
+const toShapeChange = <T>(
+  shape: string,
+  event: ServerSentEvent,
+): ShapeChangeEvent<T> | undefined => {
+  let data: unknown;
+  try {
+    data = event.data ? JSON.parse(event.data) : {};
+  } catch {
+    return undefined;
+  }
+  if (typeof data !== "object" || data === null) return undefined;
+
+  const body = data as Record<string, unknown>;
+  const type = (event.event === "message" ? body.type : event.event) as string;
+  if (!CHANGE_TYPES.includes(type as ShapeChangeType)) return undefined;
+
+  // Servers may send the record itself or wrap it as { hiveId, record }.
+  const record = (
+    "record" in body ? body.record : type === "deleted" ? undefined : body
+  ) as T | undefined;
+  const hiveId =
+    typeof body.hiveId === "string"
+      ? body.hiveId
+      : getHiveId(record as unknown);
+  if (!hiveId) return undefined;
+
+  const base = { shape, hiveId, eventId: event.id };
+  return type === "deleted"
+    ? { ...base, type }
+    : { ...base, type: type as "created" | "updated", record: record as T };
+};
+
+const getHiveId = (record: unknown): string | undefined => {
+  if (typeof record !== "object" || record === null) return undefined;
+  const hiveId = (record as Record<string, unknown>).hiveId;
+  return typeof hiveId === "string" ? hiveId : undefined;
+};
+
+const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  handlers: ServerSentEventHandlers,
+  signal?: AbortSignal,
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const abort = (): void => {
+    void reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener("abort", abort, { once: true });
+
+  let buffer = "";
+  let event: ServerSentEvent = { event: "message", data: "" };
+  let hasData = false;
+
+  const processLine = (line: string): void => {
+    if (line === "") {
+      if (hasData) {
+        handlers.onEvent({ ...event, data: event.data.replace(/\n$/, "") });
+      }
+      event = { event: "message", data: "", id: event.id };
+      hasData = false;
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "data") {
+      event.data += `${value}\n`;
+      hasData = true;
+    } else if (field === "event") {
+      event.event = value || "message";
+    } else if (field === "id" && !value.includes("\0")) {
+      event.id = value;
+    } else if (field === "retry" && /^\d+$/.test(value)) {
+      handlers.onRetry(Number(value));
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last piece may be an incomplete line.
+      buffer = lines.pop() ?? "";
+      for (const line of lines) processLine(line);
+    }
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    if (signal?.aborted) throw toAbortError(signal);
+  }
+};
@@ -0,0 +1,141 @@
+import type {
+  AuthState,
+  AuthStateChangeDetails,
+  AuthStateChangeListener,
+  AuthStateChangeOptions,
+  AuthStateChangeTrigger,
+  AuthStateChangeUnsubscribe,
+} from "@synchive/synchive-js";
+import { User, type UserProfile } from "oidc-client-ts";
+
+type Subscriber = {
+  listener: AuthStateChangeListener;
+  detailed: boolean;
+  lastKey?: string;
+};
+
+// Same rule as the real client: these only report state, so unchanged repeats are dropped.
+const STATE_TRIGGERS: AuthStateChangeTrigger[] = [
+  "initialState",
+  "authenticated",
+  "unauthenticated",
+  "tokenRefreshed",
+];
+
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+/** Scripted sign-in state for `MockSyncHiveClient`. */
+export class MockAuth {
+  private user: User | null = null;
+  private tokenCount = 0;
+  private readonly subscribers = new Set<Subscriber>();
+
+  constructor(profile: Partial<UserProfile> | null | undefined) {
+    if (profile !== null) this.user = this.createUser(profile ?? {});
+  }
+
+  getUser(): User | null {
+    return this.user;
+  }
+
+  getAccessToken(): string | null {
+    return this.user && !this.user.expired ? this.user.access_token : null;
+  }
+
+  signIn(profile?: Partial<UserProfile>): User {
+    const previous = this.user;
+    const user = this.createUser({ ...previous?.profile, ...profile });
+    this.user = user;
+    this.emit(
+      previous && previous.profile.sub === user.profile.sub
+        ? "tokenRefreshed"
+        : "authenticated",
+    );
+    return user;
+  }
+
+  signOut(): void {
+    this.user = null;
+    this.emit("signedOut");
+  }
+
+  expire(): void {
+    this.user = null;
+    this.emit("unauthenticated");
+  }
+
+  emit(
+    trigger: AuthStateChangeTrigger,
+    details: AuthStateChangeDetails = {},
+  ): void {
+    for (const subscriber of [...this.subscribers]) {
+      this.deliver(subscriber, trigger, details);
+    }
+  }
+
+  subscribe(
+    listener: AuthStateChangeListener,
+    options?: AuthStateChangeOptions,
+  ): AuthStateChangeUnsubscribe {
+    const subscriber: Subscriber = {
+      listener,
+      detailed: options?.detailed === true,
+    };
+    this.subscribers.add(subscriber);
+
+    // The real client reports the initial state asynchronously too.
+    void Promise.resolve().then(() => {
+      if (this.subscribers.has(subscriber)) {
+        this.deliver(subscriber, "initialState", {});
+      }
+    });
+
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  private deliver(
+    subscriber: Subscriber,
+    trigger: AuthStateChangeTrigger,
+    details: AuthStateChangeDetails,
+  ): void {
+    const state: AuthState = {
+      user: this.user,
+      isAuthenticated: this.getAccessToken() !== null,
+    };
+    const key = `${state.isAuthenticated}:${this.user?.profile.sub ?? ""}:${this.user?.access_token ?? ""}`;
+    if (
+      key === subscriber.lastKey &&
+      (!subscriber.detailed || STATE_TRIGGERS.includes(trigger))
+    ) {
+      return;
+    }
+
+    subscriber.lastKey = key;
+    const reported = subscriber.detailed
+      ? trigger
+      : state.isAuthenticated
+        ? "authenticated"
+        : "unauthenticated";
+    subscriber.listener(state, reported, details);
+  }
+
+  private createUser(profile: Partial<UserProfile>): User {
+    const now = Math.floor(Date.now() / 1000);
+    this.tokenCount += 1;
+    return new User({
+      access_token: `mock-access-token-${this.tokenCount}`,
+      token_type: "Bearer",
+      expires_at: now + TOKEN_LIFETIME_SECONDS,
+      profile: {
+        sub: "mock-user",
+        iss: "https://auth.synchive.test",
+        aud: "mock-client",
+        iat: now,
+        exp: now + TOKEN_LIFETIME_SECONDS,
+        ...profile,
+      },
+    });
+  }
+}
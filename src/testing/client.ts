@@ -0,0 +1,150 @@
+import {
+  createMemoryStorage,
+  SyncHiveClient,
+  type AuthCallbackResult,
+  type AuthStateChangeDetails,
+  type AuthStateChangeListener,
+  type AuthStateChangeOptions,
+  type AuthStateChangeTrigger,
+  type AuthStateChangeUnsubscribe,
+  type ShapeName,
+  type ShapeRecord,
+  type ShapeSchema,
+  type SignInOptions,
+  type UntypedSchema,
+} from "@synchive/synchive-js";
+import type { User, UserProfile } from "oidc-client-ts";
+import { MockAuth } from "./auth";
+import { MOCK_API_BASE_URL, MockServer } from "./server";
+import type {
+  MockClientOptions,
+  MockFailure,
+  MockRequest,
+  MockRequestMatch,
+} from "./types";
+
+/**
+ * A `SyncHiveClient` backed by an in-memory API for unit tests. Requests go
+ * through the real client, so errors, retries, versions and pagination behave
+ * as they do against the service. Sign-in state is scripted with `signIn()`,
+ * `signOut()` and `expireSession()`.
+ */
+export class MockSyncHiveClient<
+  S extends ShapeSchema = UntypedSchema,
+> extends SyncHiveClient<S> {
+  private readonly server: MockServer;
+  private readonly mockAuth: MockAuth;
+
+  constructor(options: MockClientOptions = {}) {
+    const server = new MockServer(options);
+    const auth = new MockAuth(options.user);
+    super({
+      apiBaseUrl: MOCK_API_BASE_URL,
+      storage: createMemoryStorage(),
+      tokenProvider: () => auth.getAccessToken(),
+      fetch: server.handle,
+      retry: options.retry ?? false,
+      cache: options.cache,
+      middleware: options.middleware,
+      validators: options.validators,
+    });
+    this.server = server;
+    this.mockAuth = auth;
+  }
+
+  /** Requests received so far, oldest first. */
+  get requests(): readonly MockRequest[] {
+    return this.server.requests;
+  }
+
+  override async init(): Promise<AuthCallbackResult | null> {
+    return null;
+  }
+
+  /** Signs in right away instead of redirecting. */
+  override async signInRedirect(
+    options?: SignInOptions,
+  ): Promise<AuthCallbackResult | null> {
+    const user =
+      this.mockAuth.getUser() ??
+      this.mockAuth.signIn(
+        options?.loginHint ? { email: options.loginHint } : undefined,
+      );
+    return { type: "signIn", user, returnTo: options?.returnTo };
+  }
+
+  override async signOutRedirect(): Promise<void> {
+    this.mockAuth.signOut();
+  }
+
+  override async getUser(): Promise<User | null> {
+    return this.mockAuth.getUser();
+  }
+
+  override onAuthStateChange(
+    listener: AuthStateChangeListener,
+    options?: AuthStateChangeOptions,
+  ): AuthStateChangeUnsubscribe {
+    return this.mockAuth.subscribe(listener, options);
+  }
+
+  /** Signs a user in, or issues a new token when the same user is signed in. */
+  signIn(profile?: Partial<UserProfile>): User {
+    return this.mockAuth.signIn(profile);
+  }
+
+  signOut(): void {
+    this.mockAuth.signOut();
+  }
+
+  /** Drops the session as if the token expired and could not be renewed. */
+  expireSession(): void {
+    this.mockAuth.expire();
+  }
+
+  /** Reports a trigger such as `"sessionExpiring"` or `"renewFailed"`. */
+  triggerAuthEvent(
+    trigger: AuthStateChangeTrigger,
+    details?: AuthStateChangeDetails,
+  ): void {
+    this.mockAuth.emit(trigger, details);
+  }
+
+  /** Stores records as-is; missing `hiveId`s are generated. */
+  seed<T = ShapeRecord>(shape: string, records: T[]): T[] {
+    const stored = this.server.seed(shape, records as ShapeRecord[]);
+    this.invalidate(shape as ShapeName<S>);
+    return stored as T[];
+  }
+
+  /** A copy of every stored record of `shape`, in insertion order. */
+  records<T = ShapeRecord>(shape: string): T[] {
+    return this.server.records(shape) as T[];
+  }
+
+  /** The file last uploaded to a record's attachment field. */
+  attachment(shape: string, hiveId: string, field: string): Blob | undefined {
+    return this.server.attachment(shape, hiveId, field);
+  }
+
+  /**
+   * Fails the next matching request: a status number is answered with that
+   * HTTP status, an `Error` is thrown from `fetch` like a network failure.
+   */
+  failNext(failure: MockFailure, match?: MockRequestMatch): void {
+    this.server.failNext(failure, match);
+  }
+
+  /** Delays every response by `ms` milliseconds. */
+  setLatency(ms: number): void {
+    this.server.latency = ms;
+  }
+
+  /** Removes all records, pending failures and the request log. */
+  reset(): void {
+    for (const shape of this.server.shapeNames()) {
+      this.invalidate(shape as ShapeName<S>);
+    }
+    this.server.reset();
+  }
+}
@@ -0,0 +1,293 @@
+import type { ShapeRecord } from "@synchive/synchive-js";
+
+type Predicate = (record: ShapeRecord) => boolean;
+type Operand = (record: ShapeRecord) => unknown;
+
+type Token =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "date"; value: Date }
+  | { kind: "word"; value: string }
+  | { kind: "punct"; value: "(" | ")" | "," };
+
+const COMPARISONS = ["eq", "ne", "gt", "ge", "lt", "le"];
+const FUNCTIONS = ["contains", "startswith", "endswith"];
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const datePattern =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?/;
+const numberPattern = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/;
+const wordPattern = /^[A-Za-z_][A-Za-z0-9_]*(\/[A-Za-z_][A-Za-z0-9_]*)*/;
+
+/** Thrown for filter or orderby text the mock cannot evaluate. */
+export class MockQueryError extends Error {
+  override readonly name = "MockQueryError";
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let rest = text.trim();
+
+  while (rest) {
+    const char = rest[0];
+    let match: RegExpMatchArray | null;
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ kind: "punct", value: char });
+      rest = rest.slice(1);
+    } else if (char === "'") {
+      // Quotes inside a literal are doubled.
+      let value = "";
+      let index = 1;
+      for (;;) {
+        if (index >= rest.length) {
+          throw new MockQueryError(`Unterminated string in "${text}".`);
+        }
+        if (rest[index] === "'") {
+          if (rest[index + 1] !== "'") break;
+          index += 1;
+        }
+        value += rest[index];
+        index += 1;
+      }
+      tokens.push({ kind: "string", value });
+      rest = rest.slice(index + 1);
+    } else if ((match = rest.match(datePattern))) {
+      tokens.push({ kind: "date", value: new Date(match[0]) });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.match(numberPattern))) {
+      tokens.push({ kind: "number", value: Number(match[0]) });
+      rest = rest.slice(match[0].length);
+    } else if ((match = rest.match(wordPattern))) {
+      tokens.push({ kind: "word", value: match[0] });
+      rest = rest.slice(match[0].length);
+    } else {
+      throw new MockQueryError(`Unexpected "${char}" in "${text}".`);
+    }
+
+    rest = rest.trimStart();
+  }
+
+  return tokens;
+};
+
+export const readField = (record: ShapeRecord, path: string): unknown => {
+  let value: unknown = record;
+  for (const segment of path.split("/")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+};
+
+const toComparable = (value: unknown, other: unknown): unknown => {
+  if (other instanceof Date && typeof value === "string") {
+    return Date.parse(value);
+  }
+  return value instanceof Date ? value.getTime() : value;
+};
+
+const compareValues = (left: unknown, right: unknown): number | undefined => {
+  const a = toComparable(left, right);
+  const b = toComparable(right, left);
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return undefined;
+  }
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return undefined;
+};
+
+const isEqual = (left: unknown, right: unknown): boolean => {
+  const a = left ?? null;
+  const b = right ?? null;
+  if (a === null || b === null) return a === b;
+  return compareValues(a, b) === 0;
+};
+
+class FilterParser {
+  private readonly tokens: Token[];
+  private readonly text: string;
+  private position = 0;
+
+  constructor(text: string) {
+    this.text = text;
+    this.tokens = tokenize(text);
+  }
+
+  parse(): Predicate {
+    const predicate = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw this.unexpected();
+    }
+    return predicate;
+  }
+
+  private parseOr(): Predicate {
+    const operands = [this.parseAnd()];
+    while (this.acceptWord("or")) operands.push(this.parseAnd());
+    return operands.length === 1
+      ? operands[0]
+      : (record) => operands.some((operand) => operand(record));
+  }
+
+  private parseAnd(): Predicate {
+    const operands = [this.parseUnary()];
+    while (this.acceptWord("and")) operands.push(this.parseUnary());
+    return operands.length === 1
+      ? operands[0]
+      : (record) => operands.every((operand) => operand(record));
+  }
+
+  private parseUnary(): Predicate {
+    if (this.acceptWord("not")) {
+      const operand = this.parseUnary();
+      return (record) => !operand(record);
+    }
+    if (this.acceptPunct("(")) {
+      const inner = this.parseOr();
+      this.expectPunct(")");
+      return inner;
+    }
+
+    const token = this.peek();
+    if (token?.kind === "word" && FUNCTIONS.includes(token.value)) {
+      return this.parseFunction(token.value);
+    }
+    return this.parseComparison();
+  }
+
+  private parseFunction(name: string): Predicate {
+    this.position += 1;
+    this.expectPunct("(");
+    const field = this.parseOperand();
+    this.expectPunct(",");
+    const value = this.parseOperand();
+    this.expectPunct(")");
+
+    return (record) => {
+      const haystack = field(record);
+      const needle = value(record);
+      if (typeof haystack !== "string" || typeof needle !== "string") {
+        return false;
+      }
+      if (name === "contains") return haystack.includes(needle);
+      if (name === "startswith") return haystack.startsWith(needle);
+      return haystack.endsWith(needle);
+    };
+  }
+
+  private parseComparison(): Predicate {
+    const left = this.parseOperand();
+    const operator = this.next();
+    if (operator?.kind !== "word" || !COMPARISONS.includes(operator.value)) {
+      throw this.unexpected(operator);
+    }
+    const right = this.parseOperand();
+
+    return (record) => {
+      const a = left(record);
+      const b = right(record);
+      if (operator.value === "eq") return isEqual(a, b);
+      if (operator.value === "ne") return !isEqual(a, b);
+
+      const order = compareValues(a, b);
+      if (order === undefined) return false;
+      if (operator.value === "gt") return order > 0;
+      if (operator.value === "ge") return order >= 0;
+      if (operator.value === "lt") return order < 0;
+      return order <= 0;
+    };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+    if (!token || token.kind === "punct") throw this.unexpected(token);
+    if (token.kind !== "word") return () => token.value;
+    if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+      const value = KEYWORDS[token.value];
+      return () => value;
+    }
+    return (record) => readField(record, token.value);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position += 1;
+    return token;
+  }
+
+  private acceptWord(value: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== "word" || token.value !== value) return false;
+    this.position += 1;
+    return true;
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== "punct" || token.value !== value) return false;
+    this.position += 1;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) throw this.unexpected(this.peek());
+  }
+
+  private unexpected(token = this.peek()): MockQueryError {
+    const found = token ? `"${String(token.value)}"` : "end of input";
+    return new MockQueryError(`Unexpected ${found} in filter "${this.text}".`);
+  }
+}
+
+/** Compiles a filter string into a predicate with the API's semantics. */
+export const compileFilter = (filter: string): Predicate =>
+  new FilterParser(filter).parse();
+
+/**
+ * Compiles an orderby string (`field asc, other desc`) into a comparator.
+ * Missing and null values sort first in ascending order.
+ */
+export const compileOrderBy = (
+  orderby: string,
+): ((a: ShapeRecord, b: ShapeRecord) => number) => {
+  const clauses = orderby.split(",").map((clause) => {
+    const [field, direction = "asc", ...rest] = clause.trim().split(/\s+/);
+    if (
+      !field ||
+      field.match(wordPattern)?.[0] !== field ||
+      (direction !== "asc" && direction !== "desc") ||
+      rest.length > 0
+    ) {
+      throw new MockQueryError(`Invalid orderby "${orderby}".`);
+    }
+    return { field, sign: direction === "asc" ? 1 : -1 };
+  });
+
+  return (a, b) => {
+    for (const { field, sign } of clauses) {
+      const left = readField(a, field) ?? null;
+      const right = readField(b, field) ?? null;
+      if (left === right) continue;
+      if (left === null) return -sign;
+      if (right === null) return sign;
+      const order = compareValues(left, right) ?? 0;
+      if (order !== 0) return order * sign;
+    }
+    return 0;
+  };
+};
@@ -0,0 +1,8 @@
+export { MockSyncHiveClient } from "./client";
+export type {
+  MockClientOptions,
+  MockFailure,
+  MockOperation,
+  MockRequest,
+  MockRequestMatch,
+} from "./types";
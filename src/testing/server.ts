@@ -0,0 +1,769 @@
+import type {
+  Attachment,
+  Pagination,
+  ShapeChangeType,
+  ShapeRecord,
+} from "@synchive/synchive-js";
+import { compileFilter, compileOrderBy, MockQueryError } from "./filter";
+import type {
+  MockClientOptions,
+  MockFailure,
+  MockOperation,
+  MockRequest,
+  MockRequestMatch,
+} from "./types";
+
+export const MOCK_API_BASE_URL = "https://api.synchive.test/v1/shape";
+
+const DEFAULT_PAGE_SIZE = 50;
+const SERVER_FIELDS = ["hiveId", "createdOn", "modifiedOn"];
+
+type StoredRecord = {
+  record: ShapeRecord;
+  version: number;
+};
+
+type PendingFailure = {
+  failure: MockFailure;
+  match: MockRequestMatch;
+  remaining: number;
+};
+
+type EventStream = {
+  shape: string;
+  hiveId?: string;
+  matches: (record: ShapeRecord) => boolean;
+  controller: ReadableStreamDefaultController<Uint8Array>;
+};
+
+type Route = {
+  operation: MockOperation;
+  shape: string;
+  hiveId?: string;
+  field?: string;
+  uploadId?: string;
+};
+
+type BatchItemRequest = {
+  id: string;
+  method?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+type BatchItemResponse = {
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+};
+
+type StoredAttachment = {
+  attachment: Attachment;
+  data: Blob;
+};
+
+type UploadState = {
+  shape: string;
+  hiveId: string;
+  field: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  parts: Blob[];
+  received: number;
+};
+
+class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const toETag = (version: number): string => `"${version}"`;
+
+const json = (
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const problem = (status: number, detail: string): Response =>
+  new Response(JSON.stringify({ title: "Mock error", status, detail }), {
+    status,
+    headers: { "Content-Type": "application/problem+json" },
+  });
+
+const delay = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const defaultHiveId = (): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+};
+
+// Cursors are opaque to callers; here they just wrap the offset.
+const encodeCursor = (offset: number): string => btoa(`offset:${offset}`);
+
+const decodeCursor = (cursor: string): number => {
+  let decoded = "";
+  try {
+    decoded = atob(cursor);
+  } catch {
+    // Reported below.
+  }
+  const match = /^offset:(\d+)$/.exec(decoded);
+  if (!match) throw new MockHttpError(400, `Invalid cursor "${cursor}".`);
+  return Number(match[1]);
+};
+
+const readSelect = (query: URLSearchParams): string[] | undefined =>
+  query
+    .get("select")
+    ?.split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+const project = (
+  record: ShapeRecord,
+  select: string[] | undefined,
+): ShapeRecord => {
+  if (!select?.length) return record;
+  const result: ShapeRecord = {};
+  for (const field of select) {
+    if (field in record) result[field] = record[field];
+  }
+  return result;
+};
+
+const attachmentKey = (shape: string, hiveId: string, field: string): string =>
+  [shape, hiveId, "attachments", field].map(encodeURIComponent).join("/");
+
+const readContentRange = (
+  value: string | null,
+): { start: number; end: number; total: number } => {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(value ?? "");
+  if (!match) {
+    throw new MockHttpError(400, `Invalid Content-Range "${value ?? ""}".`);
+  }
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]) + 1,
+    total: Number(match[3]),
+  };
+};
+
+const stripServerFields = (payload: ShapeRecord): ShapeRecord => {
+  const result = { ...payload };
+  for (const field of SERVER_FIELDS) delete result[field];
+  return result;
+};
+
+/**
+ * Serves the shape API from memory, so `MockSyncHiveClient` runs the real
+ * request pipeline (auth, retries, errors, ETags) against it.
+ */
+export class MockServer {
+  readonly requests: MockRequest[] = [];
+  latency: number;
+  private readonly shapes = new Map<string, Map<string, StoredRecord>>();
+  private readonly failures: PendingFailure[] = [];
+  private readonly streams = new Set<EventStream>();
+  private readonly attachments = new Map<string, StoredAttachment>();
+  private readonly uploads = new Map<string, UploadState>();
+  private readonly pageSize: number;
+  private readonly generateHiveId: (shape: string) => string;
+  private eventId = 0;
+
+  constructor(options: MockClientOptions) {
+    this.latency = options.latency ?? 0;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.generateHiveId = options.generateHiveId ?? defaultHiveId;
+    for (const [shape, records] of Object.entries(options.data ?? {})) {
+      this.seed(shape, records);
+    }
+  }
+
+  seed(shape: string, records: ShapeRecord[]): ShapeRecord[] {
+    return records.map((record) => {
+      const now = new Date().toISOString();
+      const stored: ShapeRecord = {
+        createdOn: now,
+        modifiedOn: now,
+        ...clone(record),
+        hiveId:
+          typeof record.hiveId === "string"
+            ? record.hiveId
+            : this.generateHiveId(shape),
+      };
+      this.getShape(shape).set(stored.hiveId as string, {
+        record: stored,
+        version: 1,
+      });
+      return clone(stored);
+    });
+  }
+
+  records(shape: string): ShapeRecord[] {
+    return [...this.getShape(shape).values()].map(({ record }) =>
+      clone(record),
+    );
+  }
+
+  attachment(shape: string, hiveId: string, field: string): Blob | undefined {
+    return this.attachments.get(attachmentKey(shape, hiveId, field))?.data;
+  }
+
+  shapeNames(): string[] {
+    return [...this.shapes.keys()];
+  }
+
+  failNext(failure: MockFailure, match: MockRequestMatch = {}): void {
+    this.failures.push({ failure, match, remaining: match.times ?? 1 });
+  }
+
+  reset(): void {
+    this.shapes.clear();
+    this.attachments.clear();
+    this.uploads.clear();
+    this.failures.length = 0;
+    this.requests.length = 0;
+  }
+
+  handle = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    const url = new URL(
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url,
+    );
+    const method = (init.method ?? "GET").toUpperCase();
+    const route = this.route(url, method);
+    if (!route) return problem(404, `No mock route for ${method} ${url}.`);
+
+    let body: unknown;
+    try {
+      body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+    } catch {
+      return problem(400, "Request body is not valid JSON.");
+    }
+    this.requests.push({ ...route, method, url: url.toString(), body });
+
+    await delay(this.latency, init.signal);
+    const failure = this.takeFailure(route);
+    if (failure instanceof Error) throw failure;
+    if (failure !== undefined) {
+      return problem(failure, `Injected ${failure} response.`);
+    }
+
+    return this.respond(route, url, init, body);
+  };
+
+  private async respond(
+    route: Route,
+    url: URL,
+    init: RequestInit,
+    body: unknown,
+  ): Promise<Response> {
+    try {
+      if (route.operation === "batch") return await this.executeBatch(body);
+      return route.field === undefined
+        ? this.execute(route, url, new Headers(init.headers), body)
+        : await this.executeAttachment(route, url, init, body);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return problem(error.status, error.message);
+      }
+      if (error instanceof MockQueryError) return problem(400, error.message);
+      throw error;
+    }
+  }
+
+  private async executeBatch(body: unknown): Promise<Response> {
+    const requests = this.toPayload(body).requests;
+    if (!Array.isArray(requests)) {
+      throw new MockHttpError(400, "Batch body must have a requests array.");
+    }
+
+    // Operations run one after another, so later ones see earlier writes.
+    const responses: BatchItemResponse[] = [];
+    for (const request of requests as BatchItemRequest[]) {
+      responses.push(await this.executeBatchItem(request));
+    }
+    return json(200, { responses });
+  }
+
+  private async executeBatchItem(
+    request: BatchItemRequest,
+  ): Promise<BatchItemResponse> {
+    const method = String(request.method ?? "GET").toUpperCase();
+    const url = new URL(`${MOCK_API_BASE_URL}/${request.url ?? ""}`);
+    const route = this.route(url, method);
+
+    let response: Response;
+    if (
+      !route ||
+      route.field !== undefined ||
+      route.operation === "batch" ||
+      route.operation === "subscribe"
+    ) {
+      response = problem(400, `${method} ${url} cannot be batched.`);
+    } else {
+      const failure = this.takeFailure(route);
+      response =
+        failure === undefined
+          ? await this.respond(
+              route,
+              url,
+              { method, headers: request.headers },
+              request.body,
+            )
+          : failure instanceof Error
+            ? problem(500, failure.message)
+            : problem(failure, `Injected ${failure} response.`);
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    const text = await response.text();
+    return {
+      id: request.id,
+      status: response.status,
+      headers,
+      body: text ? (JSON.parse(text) as unknown) : undefined,
+    };
+  }
+
+  private route(url: URL, method: string): Route | undefined {
+    const basePath = new URL(MOCK_API_BASE_URL).pathname;
+    if (!url.pathname.startsWith(`${basePath}/`)) return undefined;
+
+    const [shape, hiveId, ...rest] = url.pathname
+      .slice(basePath.length + 1)
+      .split("/")
+      .map(decodeURIComponent);
+    if (!shape) return undefined;
+    if (rest.length > 0) {
+      return this.routeAttachment(shape, hiveId, rest, method);
+    }
+    if (shape === "$batch" && hiveId === undefined) {
+      return method === "POST" ? { operation: "batch", shape } : undefined;
+    }
+
+    if (hiveId === undefined) {
+      if (method === "GET") return { operation: "list", shape };
+      if (method === "POST") return { operation: "create", shape };
+      return undefined;
+    }
+
+    if (method === "GET") {
+      return hiveId === "events"
+        ? { operation: "subscribe", shape }
+        : { operation: "get", shape, hiveId };
+    }
+    if (method === "PATCH") return { operation: "update", shape, hiveId };
+    if (method === "PUT") return { operation: "replace", shape, hiveId };
+    if (method === "DELETE") return { operation: "delete", shape, hiveId };
+    return undefined;
+  }
+
+  private routeAttachment(
+    shape: string,
+    hiveId: string,
+    [segment, field, uploads, uploadId, ...rest]: string[],
+    method: string,
+  ): Route | undefined {
+    if (segment !== "attachments" || !field || rest.length > 0) {
+      return undefined;
+    }
+
+    const route = { shape, hiveId, field };
+    if (uploads === undefined) {
+      if (method === "GET") return { ...route, operation: "download" };
+      if (method === "POST") return { ...route, operation: "upload" };
+      return undefined;
+    }
+    if (uploads !== "uploads") return undefined;
+    if (uploadId === undefined) {
+      return method === "POST" ? { ...route, operation: "upload" } : undefined;
+    }
+    return method === "GET" || method === "PUT"
+      ? { ...route, operation: "upload", uploadId }
+      : undefined;
+  }
+
+  private takeFailure(route: Route): MockFailure | undefined {
+    const index = this.failures.findIndex(
+      ({ match }) =>
+        (match.shape === undefined || match.shape === route.shape) &&
+        (match.operation === undefined || match.operation === route.operation),
+    );
+    if (index === -1) return undefined;
+
+    const pending = this.failures[index];
+    pending.remaining -= 1;
+    if (pending.remaining <= 0) this.failures.splice(index, 1);
+    return pending.failure;
+  }
+
+  private execute(
+    route: Route,
+    url: URL,
+    headers: Headers,
+    body: unknown,
+  ): Response {
+    const records = this.getShape(route.shape);
+
+    switch (route.operation) {
+      case "list":
+        return json(200, this.list(route.shape, url.searchParams));
+      case "subscribe":
+        return this.openStream(route.shape, url.searchParams);
+      case "create":
+        return this.create(route.shape, body);
+      default:
+        break;
+    }
+
+    const hiveId = route.hiveId as string;
+    const stored = records.get(hiveId);
+    if (!stored) {
+      throw new MockHttpError(404, `${route.shape} ${hiveId} was not found.`);
+    }
+    if (route.operation === "get") {
+      return json(200, project(stored.record, readSelect(url.searchParams)), {
+        ETag: toETag(stored.version),
+      });
+    }
+
+    const ifMatch = headers.get("If-Match");
+    if (ifMatch && ifMatch !== "*" && ifMatch !== toETag(stored.version)) {
+      throw new MockHttpError(
+        412,
+        `${route.shape} ${hiveId} was changed by someone else.`,
+      );
+    }
+
+    if (route.operation === "delete") {
+      records.delete(hiveId);
+      this.publish(route.shape, "deleted", hiveId);
+      return new Response(null, { status: 204 });
+    }
+
+    const payload = stripServerFields(this.toPayload(body));
+    const base =
+      route.operation === "update"
+        ? stored.record
+        : {
+            hiveId,
+            createdOn: stored.record.createdOn,
+          };
+    const record: ShapeRecord = {
+      ...base,
+      ...payload,
+      modifiedOn: new Date().toISOString(),
+    };
+    const next = { record, version: stored.version + 1 };
+    records.set(hiveId, next);
+    this.publish(route.shape, "updated", hiveId, record);
+    return json(200, record, { ETag: toETag(next.version) });
+  }
+
+  private async executeAttachment(
+    route: Route,
+    url: URL,
+    init: RequestInit,
+    body: unknown,
+  ): Promise<Response> {
+    const shape = route.shape;
+    const hiveId = route.hiveId as string;
+    const field = route.field as string;
+    if (!this.getShape(shape).has(hiveId)) {
+      throw new MockHttpError(404, `${shape} ${hiveId} was not found.`);
+    }
+
+    if (route.operation === "download") {
+      const stored = this.attachments.get(attachmentKey(shape, hiveId, field));
+      if (!stored) {
+        throw new MockHttpError(
+          404,
+          `${shape} ${hiveId} has no attachment in ${field}.`,
+        );
+      }
+      return new Response(stored.data, {
+        status: 200,
+        headers: {
+          "Content-Type": stored.attachment.contentType,
+          "Content-Length": String(stored.data.size),
+        },
+      });
+    }
+
+    const startsUpload = url.pathname.endsWith("/uploads");
+    if (!route.uploadId && !startsUpload) {
+      const form = await new Request(url, {
+        method: "POST",
+        body: init.body,
+        headers: init.headers,
+      }).formData();
+      const file = form.get("file");
+      if (typeof file === "string" || file === null) {
+        throw new MockHttpError(400, 'Expected a "file" part.');
+      }
+      const attachment = this.storeAttachment(shape, hiveId, field, {
+        fileName: (file as File).name || "file",
+        contentType: file.type || "application/octet-stream",
+        data: file,
+      });
+      return json(201, attachment);
+    }
+
+    if (!route.uploadId) {
+      const file = this.toPayload(body);
+      const uploadId = defaultHiveId();
+      this.uploads.set(uploadId, {
+        shape,
+        hiveId,
+        field,
+        fileName: String(file.fileName ?? "file"),
+        contentType: String(file.contentType ?? "application/octet-stream"),
+        size: Number(file.size ?? 0),
+        parts: [],
+        received: 0,
+      });
+      return json(201, { uploadId, received: 0 });
+    }
+
+    const upload = this.uploads.get(route.uploadId);
+    if (!upload || upload.shape !== shape || upload.hiveId !== hiveId) {
+      throw new MockHttpError(404, `Upload ${route.uploadId} was not found.`);
+    }
+    if (init.method?.toUpperCase() === "GET") {
+      return json(200, {
+        uploadId: route.uploadId,
+        received: upload.received,
+      });
+    }
+
+    const range = readContentRange(
+      new Headers(init.headers).get("Content-Range"),
+    );
+    if (range.start !== upload.received || range.total !== upload.size) {
+      throw new MockHttpError(
+        416,
+        `Expected bytes from ${upload.received} of ${upload.size}.`,
+      );
+    }
+    const chunk = await new Response(init.body).blob();
+    upload.parts.push(chunk);
+    upload.received += chunk.size;
+    if (upload.received < upload.size) {
+      return json(202, {
+        uploadId: route.uploadId,
+        received: upload.received,
+      });
+    }
+
+    this.uploads.delete(route.uploadId);
+    const attachment = this.storeAttachment(shape, hiveId, field, {
+      fileName: upload.fileName,
+      contentType: upload.contentType,
+      data: new Blob(upload.parts),
+    });
+    return json(201, attachment);
+  }
+
+  private storeAttachment(
+    shape: string,
+    hiveId: string,
+    field: string,
+    file: { fileName: string; contentType: string; data: Blob },
+  ): Attachment {
+    const attachment: Attachment = {
+      field,
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.data.size,
+      url: `${MOCK_API_BASE_URL}/${attachmentKey(shape, hiveId, field)}`,
+    };
+    this.attachments.set(attachmentKey(shape, hiveId, field), {
+      attachment,
+      data: file.data,
+    });
+
+    // The record's field now describes the stored file.
+    const records = this.getShape(shape);
+    const stored = records.get(hiveId) as StoredRecord;
+    const record: ShapeRecord = {
+      ...stored.record,
+      [field]: attachment,
+      modifiedOn: new Date().toISOString(),
+    };
+    records.set(hiveId, { record, version: stored.version + 1 });
+    this.publish(shape, "updated", hiveId, record);
+    return clone(attachment);
+  }
+
+  private list(
+    shape: string,
+    query: URLSearchParams,
+  ): { shapes: ShapeRecord[]; pagination: Pagination } {
+    let records = [...this.getShape(shape).values()].map(
+      ({ record }) => record,
+    );
+
+    const filter = query.get("filter");
+    if (filter) records = records.filter(compileFilter(filter));
+
+    const orderby = query.get("orderby");
+    if (orderby) records = [...records].sort(compileOrderBy(orderby));
+
+    const cursor = query.get("cursor");
+    const skip = cursor
+      ? decodeCursor(cursor)
+      : (this.readCount(query, "skip") ?? 0);
+    const pageSize = this.readCount(query, "top") ?? this.pageSize;
+    const totalItems = records.length;
+    const end = skip + pageSize;
+
+    const pagination: Pagination = {
+      pageNumber: pageSize > 0 ? Math.floor(skip / pageSize) + 1 : 1,
+      pageSize,
+    };
+    if (query.get("count") !== "false") {
+      pagination.totalItems = totalItems;
+      pagination.totalPages =
+        pageSize > 0 ? Math.ceil(totalItems / pageSize) : 0;
+    }
+    if (pageSize > 0 && end < totalItems) {
+      pagination.nextCursor = encodeCursor(end);
+    }
+
+    const select = readSelect(query);
+    return {
+      shapes: records.slice(skip, end).map((record) => project(record, select)),
+      pagination,
+    };
+  }
+
+  private create(shape: string, body: unknown): Response {
+    const payload = stripServerFields(this.toPayload(body));
+    const hiveId = this.generateHiveId(shape);
+    if (this.getShape(shape).has(hiveId)) {
+      throw new MockHttpError(409, `${shape} ${hiveId} already exists.`);
+    }
+
+    const now = new Date().toISOString();
+    const record: ShapeRecord = {
+      ...payload,
+      hiveId,
+      createdOn: now,
+      modifiedOn: now,
+    };
+    this.getShape(shape).set(hiveId, { record, version: 1 });
+    this.publish(shape, "created", hiveId, record);
+    return json(201, record, { ETag: toETag(1) });
+  }
+
+  private openStream(shape: string, query: URLSearchParams): Response {
+    const hiveId = query.get("hiveId") ?? undefined;
+    const filter = query.get("filter");
+    const matches = filter ? compileFilter(filter) : () => true;
+
+    let stream: EventStream | undefined;
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        stream = { shape, hiveId, matches, controller };
+        this.streams.add(stream);
+      },
+      cancel: () => {
+        if (stream) this.streams.delete(stream);
+      },
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream" },
+    });
+  }
+
+  private publish(
+    shape: string,
+    type: ShapeChangeType,
+    hiveId: string,
+    record?: ShapeRecord,
+  ): void {
+    const encoder = new TextEncoder();
+    for (const stream of this.streams) {
+      if (stream.shape !== shape) continue;
+      if (stream.hiveId && stream.hiveId !== hiveId) continue;
+      if (record && !stream.matches(record)) continue;
+
+      this.eventId += 1;
+      const data = JSON.stringify({ hiveId, record });
+      stream.controller.enqueue(
+        encoder.encode(
+          `id: ${this.eventId}\nevent: ${type}\ndata: ${data}\n\n`,
+        ),
+      );
+    }
+  }
+
+  private toPayload(body: unknown): ShapeRecord {
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new MockHttpError(400, "Request body must be a JSON object.");
+    }
+    return body as ShapeRecord;
+  }
+
+  private readCount(query: URLSearchParams, name: string): number | undefined {
+    const value = query.get(name);
+    if (value === null) return undefined;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new MockHttpError(400, `${name} must be a non-negative integer.`);
+    }
+    return count;
+  }
+
+  private getShape(shape: string): Map<string, StoredRecord> {
+    let records = this.shapes.get(shape);
+    if (!records) {
+      records = new Map();
+      this.shapes.set(shape, records);
+    }
+    return records;
+  }
+}
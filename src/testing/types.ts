@@ -0,0 +1,51 @@
+import type {
+  CacheOptions,
+  Middleware,
+  RetryOptions,
+  ShapeRecord,
+  ShapeValidators,
+} from "@synchive/synchive-js";
+import type { UserProfile } from "oidc-client-ts";
+
+export type MockOperation =
+  | "list"
+  | "get"
+  | "create"
+  | "update"
+  | "replace"
+  | "delete"
+  | "subscribe"
+  | "upload"
+  | "download"
+  | "batch";
+
+export type MockRequest = {
+  operation: MockOperation;
+  shape: string;
+  hiveId?: string;
+  field?: string;
+  uploadId?: string;
+  method: string;
+  url: string;
+  body?: unknown;
+};
+
+export type MockRequestMatch = {
+  shape?: string;
+  operation?: MockOperation;
+  times?: number;
+};
+
+export type MockFailure = number | Error;
+
+export type MockClientOptions = {
+  data?: Record<string, ShapeRecord[]>;
+  user?: Partial<UserProfile> | null;
+  latency?: number;
+  pageSize?: number;
+  generateHiveId?: (shape: string) => string;
+  retry?: RetryOptions | false;
+  cache?: CacheOptions | boolean;
+  middleware?: Middleware[];
+  validators?: ShapeValidators;
+};
@@ -0,0 +1,243 @@
+import { abortable } from "./abort";
+import {
+  createHttpError,
+  SyncHiveError,
+  SyncHiveNetworkError,
+  SyncHiveNotAuthenticatedError,
+} from "./errors";
+import type {
+  AccessTokenCallback,
+  AccessTokenRequest,
+  ClientCredentialsOptions,
+  RefreshTokenOptions,
+  TokenEndpointOptions,
+  TokenProvider,
+} from "./types";
+
+// Refresh a little early so a token does not expire while a request is in flight.
+const EXPIRY_SKEW_MS = 30_000;
+
+type TokenResponse = {
+  access_token?: string;
+  expires_in?: number;
+  refresh_token?: string;
+};
+
+type CachedToken = {
+  value: string;
+  expiresAt: number;
+};
+
+export const resolveTokenProvider = (
+  provider: string | AccessTokenCallback | TokenProvider,
+): TokenProvider => {
+  if (typeof provider === "string") {
+    if (!provider.trim()) {
+      throw new Error("tokenProvider must not be an empty string.");
+    }
+    return { getAccessToken: () => provider };
+  }
+  if (typeof provider === "function") {
+    return { getAccessToken: provider };
+  }
+  return provider;
+};
+
+/**
+ * Exchanges a confidential client's id and secret for access tokens using the
+ * OAuth client-credentials grant. Tokens are cached until shortly before they
+ * expire.
+ */
+export const createClientCredentialsProvider = (
+  options: ClientCredentialsOptions,
+): TokenProvider =>
+  new OAuthTokenProvider(options, () => ({
+    grant_type: "client_credentials",
+    client_id: options.clientId,
+    client_secret: options.clientSecret,
+  }));
+
+/**
+ * Exchanges a refresh token for access tokens. When the server rotates the
+ * refresh token, the new one is used from then on and passed to
+ * `onRefreshToken` so it can be persisted.
+ */
+export const createRefreshTokenProvider = (
+  options: RefreshTokenOptions,
+): TokenProvider => {
+  let refreshToken = options.refreshToken;
+  return new OAuthTokenProvider(
+    options,
+    (request) => ({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: options.clientId ?? request.clientId,
+      client_secret: options.clientSecret,
+    }),
+    async (response) => {
+      if (!response.refresh_token || response.refresh_token === refreshToken) {
+        return;
+      }
+      refreshToken = response.refresh_token;
+      await options.onRefreshToken?.(refreshToken);
+    },
+  );
+};
+
+class OAuthTokenProvider implements TokenProvider {
+  private readonly options: TokenEndpointOptions;
+  private readonly buildGrant: (
+    request: AccessTokenRequest,
+  ) => Record<string, string | undefined>;
+  private readonly onResponse?: (response: TokenResponse) => Promise<void>;
+  private token: CachedToken | null = null;
+  private pending: Promise<string> | null = null;
+  private tokenEndpoint: Promise<string> | null = null;
+
+  constructor(
+    options: TokenEndpointOptions,
+    buildGrant: (
+      request: AccessTokenRequest,
+    ) => Record<string, string | undefined>,
+    onResponse?: (response: TokenResponse) => Promise<void>,
+  ) {
+    this.options = options;
+    this.buildGrant = buildGrant;
+    this.onResponse = onResponse;
+  }
+
+  async getAccessToken(request: AccessTokenRequest): Promise<string> {
+    if (
+      !request.forceRefresh &&
+      this.token &&
+      this.token.expiresAt - EXPIRY_SKEW_MS > Date.now()
+    ) {
+      return this.token.value;
+    }
+
+    // Concurrent requests share one token call; a caller's abort only stops it waiting.
+    if (!this.pending) {
+      this.pending = this.requestToken(request).finally(() => {
+        this.pending = null;
+      });
+    }
+    return abortable(this.pending, request.signal);
+  }
+
+  clear(): void {
+    this.token = null;
+  }
+
+  private async requestToken(request: AccessTokenRequest): Promise<string> {
+    const url = await this.getTokenEndpoint(request);
+    const body = new URLSearchParams();
+    const grant = {
+      ...this.buildGrant(request),
+      scope: this.options.scope,
+    };
+    for (const [name, value] of Object.entries(grant)) {
+      if (value) body.set(name, value);
+    }
+
+    const response = await fetchOrThrow(request, url, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+    if (!response.ok) {
+      const error = await createHttpError(response, { url, method: "POST" });
+      if (response.status === 400 || response.status === 401) {
+        // invalid_grant / invalid_client: retrying with the same credentials will not help.
+        throw new SyncHiveNotAuthenticatedError(
+          "The token endpoint rejected the configured credentials.",
+          error,
+        );
+      }
+      throw error;
+    }
+
+    const token = (await response.json()) as TokenResponse;
+    if (!token.access_token) {
+      throw new SyncHiveError(
+        "The token endpoint response did not include an access_token.",
+      );
+    }
+
+    await this.onResponse?.(token);
+    this.token = {
+      value: token.access_token,
+      expiresAt:
+        typeof token.expires_in === "number"
+          ? Date.now() + token.expires_in * 1000
+          : Number.POSITIVE_INFINITY,
+    };
+    return token.access_token;
+  }
+
+  private getTokenEndpoint(request: AccessTokenRequest): Promise<string> {
+    if (this.options.tokenEndpoint) {
+      return Promise.resolve(this.options.tokenEndpoint);
+    }
+
+    if (!this.tokenEndpoint) {
+      this.tokenEndpoint = discoverTokenEndpoint(request, this.options).catch(
+        (error: unknown) => {
+          // Let the next call retry discovery instead of caching the failure.
+          this.tokenEndpoint = null;
+          throw error;
+        },
+      );
+    }
+    return this.tokenEndpoint;
+  }
+}
+
+const discoverTokenEndpoint = async (
+  request: AccessTokenRequest,
+  options: TokenEndpointOptions,
+): Promise<string> => {
+  const authority = options.authority ?? request.authority;
+  if (!authority) {
+    throw new Error(
+      "Token provider needs an authority. Pass publishableKey to the client, or set authority or tokenEndpoint on the provider.",
+    );
+  }
+
+  const url = new URL(
+    ".well-known/openid-configuration",
+    authority.endsWith("/") ? authority : `${authority}/`,
+  ).toString();
+  const response = await fetchOrThrow(request, url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw await createHttpError(response, { url, method: "GET" });
+  }
+
+  const metadata = (await response.json()) as { token_endpoint?: string };
+  if (!metadata.token_endpoint) {
+    throw new SyncHiveError(
+      `OpenID configuration at ${url} does not include a token_endpoint.`,
+    );
+  }
+  return metadata.token_endpoint;
+};
+
+const fetchOrThrow = async (
+  request: AccessTokenRequest,
+  url: string,
+  init: RequestInit,
+): Promise<Response> => {
+  try {
+    return await request.fetch(url, init);
+  } catch (error) {
+    throw new SyncHiveNetworkError({
+      url,
+      method: init.method ?? "GET",
+      cause: error,
+    });
+  }
+};
@@ -1,19 +1,70 @@
-import type { User, UserManagerSettings } from "oidc-client-ts";
+import type { StateStore, User, UserManagerSettings } from "oidc-client-ts";
+import type { SyncHiveConflictError } from "./errors";
+import type { FieldOf, FilterExpression, OrderByExpression } from "./query";
 
-export type ListParams = {
+export type ShapeRecord = Record<string, unknown>;
+
+export type DefaultServerField = "hiveId" | "createdOn" | "modifiedOn";
+
+export type ShapeType<
+  TRecord,
+  TServerField extends keyof TRecord = Extract<
+    keyof TRecord,
+    DefaultServerField
+  >,
+> = {
+  record: TRecord;
+  serverFields: TServerField;
+};
+
+export type ShapeSchema = object;
+
+export type UntypedSchema = Record<string, ShapeRecord>;
+
+export type ShapeName<S> = Extract<keyof S, string>;
+
+export type UntypedShapeName<S> = string extends keyof S ? string : never;
+
+export type ShapeRecordOf<S, K extends keyof S> =
+  S[K] extends ShapeType<infer TRecord, infer _TServerField> ? TRecord : S[K];
+
+export type ShapeServerField<S, K extends keyof S> =
+  S[K] extends ShapeType<infer _TRecord, infer TServerField>
+    ? TServerField
+    : Extract<keyof S[K], DefaultServerField>;
+
+export type ShapeCreatePayload<S, K extends keyof S> = Omit<
+  ShapeRecordOf<S, K>,
+  ShapeServerField<S, K>
+> & {
+  [TField in ShapeServerField<S, K>]?: never;
+};
+
+export type ShapeUpdatePayload<S, K extends keyof S> = Partial<
+  ShapeCreatePayload<S, K>
+>;
+
+export type ListParams<T = ShapeRecord, F extends FieldOf<T> = FieldOf<T>> = {
   top?: number;
   skip?: number;
-  filter?: string;
-  orderby?: string;
+  filter?: string | FilterExpression<T>;
+  orderby?: string | OrderByExpression<T>;
+  select?: readonly F[];
+  expand?: string | readonly string[];
+  count?: boolean;
+  cursor?: string;
 };
 
-export type ShapeRecord = Record<string, unknown>;
+export type SelectedRecord<T, F extends FieldOf<T>> = [FieldOf<T>] extends [F]
+  ? T
+  : Pick<T, F>;
 
 export type Pagination = {
   totalItems?: number;
   totalPages?: number;
   pageNumber?: number;
   pageSize?: number;
+  nextCursor?: string;
 };
 
 export type ListResult<T = ShapeRecord> = {
@@ -26,24 +77,340 @@ export type AuthState = {
   isAuthenticated: boolean;
 };
 
+export type SignInOptions = {
+  returnTo?: string;
+  loginHint?: string;
+  prompt?: string;
+  extraQueryParams?: Record<string, string | number | boolean>;
+};
+
+export type AuthCallbackResult =
+  | { type: "signIn"; user: User; returnTo?: string }
+  | { type: "signOut" };
+
+export type InitOptions = {
+  navigate?: boolean | ((returnTo: string) => void);
+};
+
 export type AuthStateChangeTrigger =
   | "authenticated"
-  | "unauthenticated";
+  | "unauthenticated"
+  | "initialState"
+  | "tokenRefreshed"
+  | "sessionExpiring"
+  | "signedOut"
+  | "renewFailed";
+
+export type AuthStateChangeDetails = {
+  expiresIn?: number;
+  error?: unknown;
+};
 
 export type AuthStateChangeListener = (
   state: AuthState,
   trigger: AuthStateChangeTrigger,
+  details: AuthStateChangeDetails,
 ) => void;
 
+export type AuthStateChangeOptions = {
+  detailed?: boolean;
+};
+
 export type AuthStateChangeUnsubscribe = () => void;
 
 export type FetchLike = typeof fetch;
 
+export type AccessTokenRequest = {
+  forceRefresh: boolean;
+  signal?: AbortSignal;
+  authority?: string;
+  clientId?: string;
+  fetch: FetchLike;
+};
+
+export type AccessTokenResult = string | null | undefined;
+
+export type AccessTokenCallback = (
+  request: AccessTokenRequest,
+) => AccessTokenResult | Promise<AccessTokenResult>;
+
+export type TokenProvider = {
+  getAccessToken: AccessTokenCallback;
+  clear?: () => void;
+};
+
+export type TokenEndpointOptions = {
+  authority?: string;
+  tokenEndpoint?: string;
+  scope?: string;
+};
+
+export type ClientCredentialsOptions = TokenEndpointOptions & {
+  clientId: string;
+  clientSecret: string;
+};
+
+export type RefreshTokenOptions = TokenEndpointOptions & {
+  refreshToken: string;
+  clientId?: string;
+  clientSecret?: string;
+  onRefreshToken?: (refreshToken: string) => void | Promise<void>;
+};
+
+export type RetryOptions = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  retryOnStatus?: number[];
+  retryNetworkErrors?: boolean;
+  idempotencyKeys?: boolean;
+};
+
+export type MiddlewareRequest = {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: BodyInit | null;
+  signal?: AbortSignal;
+};
+
+export type MiddlewareResult = Response | void;
+
+export type Middleware = {
+  onRequest?: (
+    request: MiddlewareRequest,
+  ) => MiddlewareResult | Promise<MiddlewareResult>;
+  onResponse?: (
+    response: Response,
+    request: MiddlewareRequest,
+  ) => MiddlewareResult | Promise<MiddlewareResult>;
+  onError?: (
+    error: unknown,
+    request: MiddlewareRequest,
+  ) => MiddlewareResult | Promise<MiddlewareResult>;
+};
+
+export type CacheOptions = {
+  ttl?: number;
+  staleWhileRevalidate?: number;
+  maxEntries?: number;
+};
+
+export type CacheMode = "default" | "reload" | "no-store";
+
+export type OfflineMutationStatus =
+  | "pending"
+  | "replaying"
+  | "succeeded"
+  | "failed"
+  | "conflict";
+
+export type OfflineMutation = {
+  id: string;
+  kind: "create" | "update";
+  shape: string;
+  hiveId?: string;
+  tempId?: string;
+  version?: string;
+  payload: unknown;
+  idempotencyKey: string;
+  status: OfflineMutationStatus;
+  attempts: number;
+  queuedAt: string;
+};
+
+export type OfflineQueueState = {
+  items: OfflineMutation[];
+  idMap: Record<string, string>;
+  owner?: string;
+};
+
+export type OfflineQueueStore = {
+  load: () => OfflineQueueState | Promise<OfflineQueueState>;
+  save: (state: OfflineQueueState) => void | Promise<void>;
+};
+
+export type OfflineQueueEvent = {
+  type: "queued" | OfflineMutationStatus;
+  item: OfflineMutation;
+  error?: unknown;
+  result?: unknown;
+};
+
+export type OfflineQueueListener = (event: OfflineQueueEvent) => void;
+
+export type OfflineOptions = {
+  store?: OfflineQueueStore;
+  storageKey?: string;
+  replayOnReconnect?: boolean;
+  onConflict?: (item: OfflineMutation, error: SyncHiveConflictError) => void;
+  onFailure?: (item: OfflineMutation, error: unknown) => void;
+};
+
+export type RequestOptions = {
+  retry?: RetryOptions | false;
+  idempotencyKey?: string;
+  middleware?: Middleware[];
+  signal?: AbortSignal;
+  timeout?: number;
+  headers?: HeadersInit;
+  cache?: CacheMode;
+};
+
+export type GetOptions<
+  T = ShapeRecord,
+  F extends FieldOf<T> = FieldOf<T>,
+> = RequestOptions & {
+  select?: readonly F[];
+  expand?: string | readonly string[];
+};
+
+export type UpdateOptions = RequestOptions & {
+  version?: string | false;
+};
+
+export type Attachment = {
+  field: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  url?: string;
+};
+
+export type TransferProgress = {
+  loaded: number;
+  total?: number;
+  uploadId?: string;
+};
+
+export type UploadAttachmentOptions = RequestOptions & {
+  fileName?: string;
+  contentType?: string;
+  chunked?: boolean;
+  chunkSize?: number;
+  uploadId?: string;
+  /**
+   * Implies `chunked` unless that is `false`. A multipart upload reports only
+   * once, when it finishes.
+   */
+  onProgress?: (progress: TransferProgress) => void;
+};
+
+export type DownloadAttachmentOptions = RequestOptions & {
+  as?: "blob" | "stream";
+  onProgress?: (progress: TransferProgress) => void;
+};
+
+export type BatchResult<T = unknown> =
+  | { status: "fulfilled"; value: T }
+  | { status: "rejected"; reason: unknown };
+
+export type BatchProgress = {
+  completed: number;
+  total: number;
+  failed: number;
+};
+
+export type BatchOptions = RequestOptions & {
+  chunkSize?: number;
+  stopOnError?: boolean;
+  onProgress?: (progress: BatchProgress) => void;
+};
+
+export type BulkUpdate<P = ShapeRecord> = {
+  hiveId: string;
+  payload: P;
+  version?: string | false;
+};
+
+export type BulkResult<T = unknown> = {
+  results: BatchResult<T>[];
+  succeeded: T[];
+  failed: { index: number; error: unknown }[];
+};
+
+export type ShapeChangeType = "created" | "updated" | "deleted";
+
+export type ShapeChangeEvent<T = ShapeRecord> =
+  | {
+      type: "created" | "updated";
+      shape: string;
+      hiveId: string;
+      record: T;
+      eventId?: string;
+    }
+  | {
+      type: "deleted";
+      shape: string;
+      hiveId: string;
+      eventId?: string;
+    };
+
+export type ShapeChangeHandler<T = ShapeRecord> = (
+  event: ShapeChangeEvent<T>,
+) => void;
+
+export type SubscribeOptions<T = ShapeRecord> = {
+  filter?: string | FilterExpression<T>;
+  hiveId?: string;
+  lastEventId?: string;
+  headers?: HeadersInit;
+  middleware?: Middleware[];
+  onError?: (error: unknown) => void;
+};
+
+export type SubscriptionUnsubscribe = () => void;
+
+export type UpsertOptions<T = ShapeRecord> = RequestOptions & {
+  key: FieldOf<T> | FieldOf<T>[];
+};
+
+export type PaginateOptions = RequestOptions & {
+  maxItems?: number;
+};
+
+export type TenantScope = {
+  workspaceId: string;
+  hiveId: string;
+};
+
+export type ShapeValidator<T = unknown> = {
+  parse: (value: unknown) => T;
+};
+
+export type ShapeValidatorSet = {
+  record?: ShapeValidator;
+  create?: ShapeValidator;
+  update?: ShapeValidator;
+};
+
+export type ShapeValidators = Record<string, ShapeValidator | ShapeValidatorSet>;
+
+export type AuthStorageMode = "memory" | "sessionStorage" | "localStorage";
+
+export type AuthStorageOption = AuthStorageMode | StateStore;
+
+export type AuthStorageOptions = {
+  user?: AuthStorageOption;
+  state?: AuthStorageOption;
+  syncTabs?: boolean;
+};
+
 export type SynchiveClientOptions = {
   publishableKey?: string;
   apiBaseUrl?: string;
+  workspaceId?: string;
+  hiveId?: string;
   auth?: UserManagerSettings;
   authOverrides?: Partial<UserManagerSettings>;
   storage?: Storage;
+  authStorage?: AuthStorageOption | AuthStorageOptions;
+  tokenProvider?: string | AccessTokenCallback | TokenProvider;
   fetch?: FetchLike;
+  retry?: RetryOptions | false;
+  middleware?: Middleware[];
+  validators?: ShapeValidators;
+  timeout?: number;
+  cache?: CacheOptions | boolean;
+  offline?: OfflineOptions | boolean;
 };
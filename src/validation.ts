@@ -0,0 +1,120 @@
+import { SyncHiveShapeValidationError, type ValidationPath } from "./errors";
+import { getVersion, setVersion } from "./versions";
+import type {
+  ListResult,
+  ShapeValidator,
+  ShapeValidators,
+  ShapeValidatorSet,
+} from "./types";
+
+type ValidatorRole = keyof ShapeValidatorSet;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isValidator = (value: unknown): value is ShapeValidator =>
+  isObject(value) && typeof value.parse === "function";
+
+/**
+ * Returns the validator registered for `shape` in the given role. A bare
+ * validator only checks records returned by the API.
+ */
+export const getShapeValidator = (
+  validators: ShapeValidators | undefined,
+  shape: string,
+  role: ValidatorRole,
+): ShapeValidator | undefined => {
+  const entry = validators?.[shape];
+  if (!entry) return undefined;
+  if (isValidator(entry)) return role === "record" ? entry : undefined;
+  return entry[role];
+};
+
+// zod and valibot both throw an error with `issues[].path`; valibot wraps keys in objects.
+const readIssue = (
+  error: unknown,
+): { path: ValidationPath; message: string } => {
+  const fallback = error instanceof Error ? error.message : String(error);
+  const issues = isObject(error) ? error.issues : undefined;
+  const issue = Array.isArray(issues) ? (issues[0] as unknown) : undefined;
+  if (!isObject(issue)) return { path: [], message: fallback };
+
+  const path = Array.isArray(issue.path)
+    ? issue.path
+        .map((segment: unknown) =>
+          isObject(segment) && "key" in segment ? segment.key : segment,
+        )
+        .filter(
+          (segment): segment is string | number =>
+            typeof segment === "string" || typeof segment === "number",
+        )
+    : [];
+  const message = typeof issue.message === "string" ? issue.message : fallback;
+  return { path, message };
+};
+
+export const parseWith = <T>(
+  validator: ShapeValidator | undefined,
+  value: unknown,
+  context: {
+    shape: string;
+    source: "response" | "payload";
+    path?: ValidationPath;
+  },
+): T => {
+  if (!validator) return value as T;
+
+  let parsed: unknown;
+  try {
+    parsed = validator.parse(value);
+  } catch (error) {
+    const issue = readIssue(error);
+    throw new SyncHiveShapeValidationError({
+      shape: context.shape,
+      source: context.source,
+      path: [...(context.path ?? []), ...issue.path],
+      message: issue.message,
+      cause: error,
+    });
+  }
+
+  // Parsers may return a copy; keep the server version on what callers get.
+  return setVersion(parsed as T, getVersion(value) ?? null);
+};
+
+/** Checks the `{ shapes, pagination }` envelope, then each record. */
+export const parseListResult = <T>(
+  validator: ShapeValidator | undefined,
+  value: unknown,
+  shape: string,
+): ListResult<T> => {
+  const fail = (path: ValidationPath, message: string): never => {
+    throw new SyncHiveShapeValidationError({
+      shape,
+      source: "response",
+      path,
+      message,
+    });
+  };
+
+  if (!isObject(value)) return fail([], "Expected a list result object.");
+  if (!Array.isArray(value.shapes)) {
+    return fail(["shapes"], "Expected an array.");
+  }
+  if (!isObject(value.pagination)) {
+    return fail(["pagination"], "Expected an object.");
+  }
+
+  const result = value as ListResult<unknown>;
+  if (!validator) return result as ListResult<T>;
+  return {
+    ...result,
+    shapes: result.shapes.map((record, index) =>
+      parseWith<T>(validator, record, {
+        shape,
+        source: "response",
+        path: ["shapes", index],
+      }),
+    ),
+  };
+};
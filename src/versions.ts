@@ -0,0 +1,39 @@
+import type { ListResult } from "./types";
+
+const versions = new WeakMap<object, string>();
+
+// Fields the API may use to carry a per-record version inside list results.
+const VERSION_FIELDS = ["@odata.etag", "etag", "_etag"];
+
+/**
+ * Returns the server version (ETag) recorded for a record returned by `get`,
+ * `list`, `create`, `update` or `replace`, if the server supplied one.
+ */
+export const getVersion = (record: unknown): string | undefined => {
+  if (!isObject(record)) return undefined;
+  return versions.get(record) ?? readVersionField(record);
+};
+
+export const setVersion = <T>(record: T, version: string | null): T => {
+  if (version && isObject(record)) versions.set(record, version);
+  return record;
+};
+
+export const attachListVersions = <T>(result: ListResult<T>): ListResult<T> => {
+  for (const record of result?.shapes ?? []) {
+    if (isObject(record)) setVersion(record, readVersionField(record) ?? null);
+  }
+  return result;
+};
+
+const readVersionField = (record: object): string | undefined => {
+  const values = record as Record<string, unknown>;
+  for (const field of VERSION_FIELDS) {
+    const value = values[field];
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+};
+
+const isObject = (value: unknown): value is object =>
+  typeof value === "object" && value !== null;